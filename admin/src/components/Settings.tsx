@@ -16,6 +16,7 @@ import {
     allDomainIds,
     getDomainAncestors,
     domainNodeById,
+    SYSTEM_VARS_FIELD_CATALOGUE,
 } from '../../../src/shared/unraid-domains';
 import type enTranslations from '../i18n/en.json';
 
@@ -101,6 +102,11 @@ const TreeDescription = styled(Typography)(({ theme }) => ({
     color: theme.palette.text.secondary,
 }));
 
+const FieldGrid = styled('div')({
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))',
+});
+
 /**
  * Props for the Settings component
  */
@@ -302,6 +308,124 @@ class Settings extends React.Component<SettingsProps, SettingsState> {
         );
     }
 
+    /**
+     * Render the Docker stats throttle input (only used with subscriptions).
+     *
+     * @returns TextField component for the Docker stats interval
+     */
+    private renderDockerStatsInterval(): React.ReactNode {
+        const { native } = this.props;
+        const value = typeof native.dockerStatsIntervalSeconds === 'number' ? native.dockerStatsIntervalSeconds : 30;
+
+        return (
+            <StyledInput
+                variant="standard"
+                label={I18n.t('dockerStatsIntervalSeconds')}
+                value={value}
+                type="number"
+                disabled={!native.useSubscriptions}
+                slotProps={{ htmlInput: { min: 0, step: 5 } }}
+                onChange={event => {
+                    const parsed = Number(event.target.value);
+                    if (Number.isFinite(parsed) && parsed >= 0) {
+                        this.props.onChange('dockerStatsIntervalSeconds', Math.floor(parsed));
+                    }
+                }}
+                helperText={I18n.t('dockerStatsIntervalSeconds_help')}
+                margin="normal"
+                fullWidth
+            />
+        );
+    }
+
+    /**
+     * Render the timeout input for the `shutdownAndWait` VM command.
+     *
+     * @param disabled - Whether the VM list domain is deselected
+     * @returns TextField component for the VM shutdown timeout
+     */
+    private renderVmShutdownTimeout(disabled: boolean): React.ReactNode {
+        const { native } = this.props;
+        const value = typeof native.vmShutdownTimeoutSeconds === 'number' ? native.vmShutdownTimeoutSeconds : 120;
+
+        return (
+            <StyledInput
+                variant="standard"
+                label={I18n.t('vmShutdownTimeoutSeconds')}
+                value={value}
+                type="number"
+                disabled={disabled}
+                slotProps={{ htmlInput: { min: 10, step: 10 } }}
+                onChange={event => {
+                    const parsed = Number(event.target.value);
+                    if (Number.isFinite(parsed) && parsed > 0) {
+                        this.props.onChange('vmShutdownTimeoutSeconds', Math.floor(parsed));
+                    }
+                }}
+                helperText={I18n.t('vmShutdownTimeoutSeconds_help')}
+                margin="normal"
+                fullWidth
+            />
+        );
+    }
+
+    /**
+     * Render the checkboxes for additional `system.vars` catalogue fields.
+     * The selection is stored comma separated in `systemVarsExtraFields`.
+     *
+     * @param disabled - Whether the system.vars domain is deselected
+     * @returns Checkbox grid for the optional Vars fields
+     */
+    private renderSystemVarsFields(disabled: boolean): React.ReactNode {
+        const { native } = this.props;
+        const raw = typeof native.systemVarsExtraFields === 'string' ? native.systemVarsExtraFields : '';
+        const selected = new Set(
+            raw
+                .split(/[\n,]/)
+                .map(field => field.trim())
+                .filter(Boolean),
+        );
+
+        const toggle = (name: string, checked: boolean): void => {
+            const next = new Set(selected);
+            if (checked) {
+                next.add(name);
+            } else {
+                next.delete(name);
+            }
+            this.props.onChange('systemVarsExtraFields', [...next].join(','));
+        };
+
+        return (
+            <ControlElement>
+                <Typography
+                    variant="caption"
+                    color="textSecondary"
+                    sx={{ display: 'block' }}
+                >
+                    {I18n.t('systemVarsExtraFields_help')}
+                </Typography>
+                <FieldGrid>
+                    {SYSTEM_VARS_FIELD_CATALOGUE.filter(field => !field.curated).map(field => (
+                        <FormControlLabel
+                            key={field.name}
+                            control={
+                                <Checkbox
+                                    size="small"
+                                    color="primary"
+                                    checked={selected.has(field.name)}
+                                    disabled={disabled}
+                                    onChange={(_event, checked) => toggle(field.name, checked)}
+                                />
+                            }
+                            label={field.name}
+                        />
+                    ))}
+                </FieldGrid>
+            </ControlElement>
+        );
+    }
+
     private toggleDomainExpansion = (id: string): void => {
         this.setState(prev => {
             const next = new Set(prev.expandedDomainIds);
@@ -325,8 +449,21 @@ class Settings extends React.Component<SettingsProps, SettingsState> {
         if (shouldSelect) {
             affectedIds.forEach(id => next.add(id));
             getDomainAncestors(node.id).forEach(ancestorId => next.add(ancestorId));
+            // Select the domains the new ones extend (e.g. docker.containers for its field groups)
+            affectedIds.forEach(id =>
+                domainNodeById.get(id)?.requires?.forEach(requiredId => {
+                    next.add(requiredId);
+                    getDomainAncestors(requiredId).forEach(ancestorId => next.add(ancestorId));
+                }),
+            );
         } else {
             affectedIds.forEach(id => next.delete(id));
+            // Domains extending a deselected one would no longer write anything
+            domainNodeById.forEach((candidate, candidateId) => {
+                if (candidate.requires?.some(requiredId => affectedIds.includes(requiredId))) {
+                    next.delete(candidateId);
+                }
+            });
             this.pruneAncestors(node.id, next);
         }
 
@@ -458,23 +595,88 @@ class Settings extends React.Component<SettingsProps, SettingsState> {
                 <Section>
                     <SectionHeader variant="h6">{I18n.t('section.polling')}</SectionHeader>
                     {this.renderPollInterval()}
-                    {/* Subscription support temporarily disabled due to Unraid API issues
                     <ControlElement>
                         <FormControlLabel
                             control={
                                 <Checkbox
                                     color="primary"
                                     checked={!!native.useSubscriptions}
-                                    onChange={(event, checked) => this.props.onChange('useSubscriptions', checked)}
+                                    onChange={(_event, checked) => this.props.onChange('useSubscriptions', checked)}
                                 />
                             }
                             label={I18n.t('useSubscriptions')}
                         />
-                        <Typography variant="caption" color="textSecondary" sx={{ display: 'block', marginLeft: 4 }}>
+                        <Typography
+                            variant="caption"
+                            color="textSecondary"
+                            sx={{ display: 'block', marginLeft: 4 }}
+                        >
                             {I18n.t('useSubscriptions_help')}
                         </Typography>
                     </ControlElement>
-                    */}
+                    {this.renderDockerStatsInterval()}
+                </Section>
+
+                <Divider />
+
+                <Section>
+                    <SectionHeader variant="h6">{I18n.t('section.arrayControl')}</SectionHeader>
+                    <ControlElement>
+                        <FormControlLabel
+                            control={
+                                <Checkbox
+                                    color="primary"
+                                    checked={!!native.arrayControlEnabled}
+                                    onChange={(_event, checked) => this.props.onChange('arrayControlEnabled', checked)}
+                                />
+                            }
+                            label={I18n.t('arrayControlEnabled')}
+                        />
+                        <Typography
+                            variant="caption"
+                            color="textSecondary"
+                            sx={{ display: 'block', marginLeft: 4 }}
+                        >
+                            {I18n.t('arrayControlEnabled_help')}
+                        </Typography>
+                    </ControlElement>
+                    {this.renderInput('arrayDecryptionPassword', 'arrayDecryptionPassword', 'password', {
+                        disabled: !native.arrayControlEnabled,
+                        helperText: I18n.t('arrayDecryptionPassword_help'),
+                        autoComplete: 'new-password',
+                    })}
+                </Section>
+
+                <Divider />
+
+                <Section>
+                    <SectionHeader variant="h6">{I18n.t('section.vmControl')}</SectionHeader>
+                    {this.renderVmShutdownTimeout(!selection.has('vms.list'))}
+                </Section>
+
+                <Divider />
+
+                <Section>
+                    <SectionHeader variant="h6">{I18n.t('section.systemVars')}</SectionHeader>
+                    {this.renderSystemVarsFields(!selection.has('system.vars'))}
+                </Section>
+
+                <Divider />
+
+                <Section>
+                    <SectionHeader variant="h6">{I18n.t('section.logFiles')}</SectionHeader>
+                    {this.renderInput('logFilePaths', 'logFilePaths', 'text', {
+                        multiline: true,
+                        minRows: 2,
+                        disabled: !selection.has('logs.files'),
+                        helperText: I18n.t('logFilePaths_help'),
+                    })}
+                    {this.renderInput('logFilePatterns', 'logFilePatterns', 'text', {
+                        multiline: true,
+                        minRows: 2,
+                        disabled: !selection.has('logs.files'),
+                        helperText: I18n.t('logFilePatterns_help'),
+                    })}
                 </Section>
 
                 <Divider />
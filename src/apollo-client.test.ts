@@ -0,0 +1,72 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { UnraidApolloClient } from './apollo-client';
+import type { AdapterInterface } from './types/adapter-types';
+
+describe('UnraidApolloClient => mutate', () => {
+    const secret = 'correct "horse" battery';
+    let logger: { debug: sinon.SinonStub; info: sinon.SinonStub; warn: sinon.SinonStub; error: sinon.SinonStub };
+    let client: UnraidApolloClient;
+    let apolloMutate: sinon.SinonStub;
+
+    beforeEach(() => {
+        logger = { debug: sinon.stub(), info: sinon.stub(), warn: sinon.stub(), error: sinon.stub() };
+        client = new UnraidApolloClient({
+            baseUrl: 'http://127.0.0.1',
+            apiToken: 'token',
+            logger: logger as unknown as AdapterInterface['log'],
+        });
+        const apollo = (client as unknown as { client: { mutate: (...args: unknown[]) => Promise<unknown> } }).client;
+        apolloMutate = sinon.stub(apollo, 'mutate');
+    });
+
+    afterEach(async () => {
+        sinon.restore();
+        await client.dispose();
+    });
+
+    it('should not rethrow or log the secret contained in a mutation error', async () => {
+        const error = Object.assign(
+            new Error(`Variable "$decryptionPassword" got invalid value "${secret}"; Expected type Int`),
+            {
+                graphQLErrors: [{ message: `got invalid value "${secret}"` }],
+                networkError: {
+                    message: `Bad request for "${secret}"`,
+                    result: { errors: [{ message: `invalid value "${secret}"` }] },
+                },
+            },
+        );
+        apolloMutate.rejects(error);
+
+        let thrown: unknown;
+        try {
+            await client.mutate('mutation { array { start } }', { decryptionPassword: secret }, [secret]);
+        } catch (caught) {
+            thrown = caught;
+        }
+
+        expect(thrown).to.be.instanceOf(Error);
+        expect((thrown as Error).message).to.not.contain(secret);
+        expect((thrown as Error).message).to.contain('***');
+        const logged = [...logger.error.args, ...logger.debug.args].map(args => String(args[0]));
+        expect(logged).to.have.length.greaterThan(0);
+        for (const message of logged) {
+            expect(message).to.not.contain(secret);
+            expect(message).to.not.contain(JSON.stringify(secret).slice(1, -1));
+        }
+    });
+
+    it('should rethrow the original error when no secrets are given', async () => {
+        const error = new Error('Cannot return null for non-nullable field');
+        apolloMutate.rejects(error);
+
+        let thrown: unknown;
+        try {
+            await client.mutate('mutation { array { start } }');
+        } catch (caught) {
+            thrown = caught;
+        }
+
+        expect(thrown).to.equal(error);
+    });
+});
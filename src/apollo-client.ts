@@ -132,12 +132,14 @@ export class UnraidApolloClient {
      * Execute a GraphQL query against the Unraid server
      *
      * @param query - The GraphQL query string
+     * @param variables - Optional variables for the query
      * @returns Promise resolving to the query result data
      * @template T - Type of the expected query result
      */
-    async query<T = unknown>(query: string): Promise<T> {
+    async query<T = unknown>(query: string, variables?: Record<string, unknown>): Promise<T> {
         const result = await this.client.query<T>({
             query: gql(query),
+            variables,
         });
         return result.data as T;
     }
@@ -147,10 +149,17 @@ export class UnraidApolloClient {
      *
      * @param mutation - The GraphQL mutation string
      * @param variables - Optional variables for the mutation
+     * @param secrets - Variable values that must never appear in logs or error messages
+     *   (e.g. the array decryption passphrase). They are masked before anything is logged or rethrown.
      * @returns Promise resolving to the mutation result data
      * @template T - Type of the expected mutation result
      */
-    async mutate<T = unknown>(mutation: string, variables?: Record<string, unknown>): Promise<T> {
+    async mutate<T = unknown>(
+        mutation: string,
+        variables?: Record<string, unknown>,
+        secrets: readonly string[] = [],
+    ): Promise<T> {
+        const redact = (text: string): string => redactSecrets(text, secrets);
         try {
             const result = await this.client.mutate<T>({
                 mutation: gql(mutation),
@@ -160,14 +169,21 @@ export class UnraidApolloClient {
         } catch (error: any) {
             // Log more details about GraphQL errors
             if (error.graphQLErrors?.length > 0) {
-                this.logger.error(`GraphQL Errors in mutation: ${JSON.stringify(error.graphQLErrors, null, 2)}`);
+                this.logger.error(
+                    `GraphQL Errors in mutation: ${redact(JSON.stringify(error.graphQLErrors, null, 2))}`,
+                );
             }
             if (error.networkError) {
-                this.logger.error(`Network Error in mutation: ${error.networkError.message}`);
+                this.logger.error(`Network Error in mutation: ${redact(String(error.networkError.message))}`);
                 if (error.networkError.result) {
-                    this.logger.debug(`Server Response: ${JSON.stringify(error.networkError.result, null, 2)}`);
+                    this.logger.debug(`Server Response: ${redact(JSON.stringify(error.networkError.result, null, 2))}`);
                 }
             }
+            // Validation errors echo the offending variable value in their message,
+            // so never rethrow the original error when secrets were involved.
+            if (secrets.some(secret => secret.length > 0)) {
+                throw new Error(redact(error instanceof Error ? error.message : String(error)));
+            }
             throw error;
         }
     }
@@ -204,6 +220,10 @@ export class UnraidApolloClient {
                 dockerType: __type(name: "Docker") { fields { name } }
                 dockerContainerType: __type(name: "DockerContainer") { fields { name } }
                 dockerMutationsType: __type(name: "DockerMutations") { fields { name } }
+                mutationType: __type(name: "Mutation") { fields { name } }
+                arrayMutationsType: __type(name: "ArrayMutations") { fields { name } }
+                subscriptionType: __type(name: "Subscription") { fields { name } }
+                queryType: __type(name: "Query") { fields { name } }
             }
         `;
 
@@ -213,6 +233,10 @@ export class UnraidApolloClient {
                 dockerType?: { fields?: Array<{ name: string }> } | null;
                 dockerContainerType?: { fields?: Array<{ name: string }> } | null;
                 dockerMutationsType?: { fields?: Array<{ name: string }> } | null;
+                mutationType?: { fields?: Array<{ name: string }> } | null;
+                arrayMutationsType?: { fields?: Array<{ name: string }> } | null;
+                subscriptionType?: { fields?: Array<{ name: string }> } | null;
+                queryType?: { fields?: Array<{ name: string }> } | null;
             };
 
             const result = await this.query<ProbeResult>(probeQuery);
@@ -223,22 +247,74 @@ export class UnraidApolloClient {
             const dockerFields = result?.dockerType?.fields;
             const containerFields = result?.dockerContainerType?.fields;
             const mutationFields = result?.dockerMutationsType?.fields;
+            const rootMutationFields = result?.mutationType?.fields;
+            const arrayMutationFields = result?.arrayMutationsType?.fields;
+            const subscriptionFields = result?.subscriptionType?.fields;
+            const queryFields = result?.queryType?.fields;
 
             const capabilities: Capabilities = {
                 temperatureMetrics: has(metricsFields, 'temperature'),
                 dockerUpdateFlag: has(containerFields, 'isUpdateAvailable'),
                 dockerContainerUpdateStatuses: has(dockerFields, 'containerUpdateStatuses'),
+                dockerTemplateLinks: ['webUiUrl', 'iconUrl', 'projectUrl', 'supportUrl'].every(field =>
+                    has(containerFields, field),
+                ),
+                dockerLanIpPorts: has(containerFields, 'lanIpPorts'),
+                dockerContainerSizes: has(containerFields, 'sizeRw') && has(containerFields, 'sizeLog'),
+                dockerAutoStartOrder: has(containerFields, 'autoStartOrder') && has(containerFields, 'autoStartWait'),
+                dockerTemplateStatus: has(containerFields, 'isOrphaned') && has(containerFields, 'isRebuildReady'),
+                dockerContainerNetworking: has(containerFields, 'ports') && has(containerFields, 'networkSettings'),
+                dockerContainerMounts: has(containerFields, 'mounts'),
+                dockerContainerImageInfo: has(containerFields, 'imageId') && has(containerFields, 'created'),
+                dockerPortConflicts: has(dockerFields, 'portConflicts'),
+                dockerOrganizer: has(dockerFields, 'organizer'),
                 dockerPause: has(mutationFields, 'pause'),
                 dockerUnpause: has(mutationFields, 'unpause'),
                 dockerUpdate: has(mutationFields, 'updateContainer'),
+                dockerRemove: has(mutationFields, 'removeContainer'),
+                dockerAutoStartControl: has(mutationFields, 'updateAutostartConfiguration'),
+                dockerBulkUpdate:
+                    has(mutationFields, 'updateContainers') &&
+                    has(mutationFields, 'updateAllContainers') &&
+                    has(containerFields, 'isUpdateAvailable'),
+                dockerRefreshDigests: has(rootMutationFields, 'refreshDockerDigests'),
+                parityCheckControl: has(rootMutationFields, 'parityCheck'),
+                arrayStateControl: has(arrayMutationFields, 'setState'),
+                notificationSubscription: has(subscriptionFields, 'notificationAdded'),
+                upsSubscription: has(subscriptionFields, 'upsUpdates'),
+                dockerStatsSubscription: has(subscriptionFields, 'dockerContainerStats'),
+                dockerLogs: has(dockerFields, 'logs'),
+                logFiles: has(queryFields, 'logFiles'),
+                logFileSubscription: has(subscriptionFields, 'logFile'),
+                notificationControl: has(rootMutationFields, 'archiveAll'),
+                notificationCreate: has(rootMutationFields, 'createNotification'),
             };
 
             this.logger.info(
                 `Unraid capabilities: temperature=${capabilities.temperatureMetrics}, ` +
                     `dockerUpdateFlag=${capabilities.dockerUpdateFlag}, ` +
                     `dockerUpdateStatuses=${capabilities.dockerContainerUpdateStatuses}, ` +
+                    `templateLinks=${capabilities.dockerTemplateLinks}, lanIpPorts=${capabilities.dockerLanIpPorts}, ` +
+                    `containerSizes=${capabilities.dockerContainerSizes}, ` +
+                    `autoStartOrder=${capabilities.dockerAutoStartOrder}, ` +
+                    `templateStatus=${capabilities.dockerTemplateStatus}, ` +
+                    `containerNetworking=${capabilities.dockerContainerNetworking}, ` +
+                    `containerMounts=${capabilities.dockerContainerMounts}, ` +
+                    `containerImageInfo=${capabilities.dockerContainerImageInfo}, ` +
+                    `portConflicts=${capabilities.dockerPortConflicts}, organizer=${capabilities.dockerOrganizer}, ` +
                     `pause=${capabilities.dockerPause}, unpause=${capabilities.dockerUnpause}, ` +
-                    `update=${capabilities.dockerUpdate}`,
+                    `update=${capabilities.dockerUpdate}, bulkUpdate=${capabilities.dockerBulkUpdate}, ` +
+                    `refreshDigests=${capabilities.dockerRefreshDigests}, ` +
+                    `remove=${capabilities.dockerRemove}, autoStartControl=${capabilities.dockerAutoStartControl}, ` +
+                    `parityCheck=${capabilities.parityCheckControl}, ` +
+                    `arrayState=${capabilities.arrayStateControl}, ` +
+                    `notificationSubscription=${capabilities.notificationSubscription}, ` +
+                    `upsSubscription=${capabilities.upsSubscription}, ` +
+                    `dockerStatsSubscription=${capabilities.dockerStatsSubscription}, ` +
+                    `dockerLogs=${capabilities.dockerLogs}, ` +
+                    `logFiles=${capabilities.logFiles}, logFileSubscription=${capabilities.logFileSubscription}, ` +
+                    `notificationControl=${capabilities.notificationControl}, ` +
+                    `notificationCreate=${capabilities.notificationCreate}`,
             );
             return capabilities;
         } catch (error) {
@@ -312,6 +388,27 @@ export class UnraidApolloClient {
     }
 }
 
+/**
+ * Replace every occurrence of the given secrets in a text with a mask.
+ *
+ * @param text - Text that may contain secret values
+ * @param secrets - Secret values to mask (empty strings are ignored)
+ * @returns Text with all secrets replaced by `***`
+ */
+function redactSecrets(text: string, secrets: readonly string[]): string {
+    let result = text;
+    for (const secret of secrets) {
+        if (!secret) {
+            continue;
+        }
+        // Mask the JSON-escaped form too, since error payloads are logged via JSON.stringify
+        for (const form of new Set([secret, JSON.stringify(secret).slice(1, -1)])) {
+            result = result.split(form).join('***');
+        }
+    }
+    return result;
+}
+
 /**
  * GraphQL subscription for comprehensive system metrics.
  * Includes both CPU and memory statistics.
@@ -358,3 +455,78 @@ export const MEMORY_SUBSCRIPTION = `
         }
     }
 `;
+
+/**
+ * GraphQL subscription for newly created Unraid notifications.
+ * Emits one notification per event.
+ */
+export const NOTIFICATION_ADDED_SUBSCRIPTION = `
+    subscription NotificationAdded {
+        notificationAdded {
+            id
+            title
+            subject
+            description
+            importance
+            link
+            timestamp
+        }
+    }
+`;
+
+/**
+ * GraphQL subscription for live Docker container resource usage.
+ * Emits one sample per running container; network and block I/O arrive as formatted strings.
+ */
+export const DOCKER_CONTAINER_STATS_SUBSCRIPTION = `
+    subscription DockerContainerStats {
+        dockerContainerStats {
+            id
+            cpuPercent
+            memUsage
+            memPercent
+            netIO
+            blockIO
+        }
+    }
+`;
+
+/**
+ * GraphQL subscription for a log file.
+ * Only used as change signal; new lines are read by line number to avoid duplicates.
+ */
+export const LOG_FILE_SUBSCRIPTION = `
+    subscription LogFile($path: String!) {
+        logFile(path: $path) {
+            path
+            totalLines
+        }
+    }
+`;
+
+/**
+ * GraphQL subscription for UPS readings.
+ * Emits the complete device whenever status, battery or power values change.
+ */
+export const UPS_UPDATES_SUBSCRIPTION = `
+    subscription UpsUpdates {
+        upsUpdates {
+            id
+            name
+            model
+            status
+            battery {
+                chargeLevel
+                estimatedRuntime
+                health
+            }
+            power {
+                inputVoltage
+                outputVoltage
+                loadPercentage
+                nominalPower
+                currentPower
+            }
+        }
+    }
+`;
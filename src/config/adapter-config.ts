@@ -1,5 +1,15 @@
 import type { DomainId } from '../shared/unraid-domains';
-import { allDomainIds, defaultEnabledDomains } from '../shared/unraid-domains';
+import { allDomainIds, defaultEnabledDomains, SYSTEM_VARS_FIELD_CATALOGUE } from '../shared/unraid-domains';
+
+/**
+ * Named regular expression counted in watched log files
+ */
+export interface LogFilePattern {
+    /** Name used as object id segment (`logs.files.<file>.matches.<name>`) */
+    name: string;
+    /** Regular expression source (matched case-insensitively) */
+    pattern: string;
+}
 
 /**
  * Adapter configuration settings from the admin interface
@@ -17,6 +27,78 @@ export interface AdapterConfig {
     enabledDomains: DomainId[];
     /** Whether to use WebSocket subscriptions (experimental) */
     useSubscriptions?: boolean;
+    /** Minimum seconds between two Docker stats writes per container (0 disables stats) */
+    dockerStatsIntervalSeconds: number;
+    /** Seconds `shutdownAndWait` waits for a VM to shut off before forcing it off */
+    vmShutdownTimeoutSeconds: number;
+    /** Whether array start/stop buttons are created */
+    arrayControlEnabled: boolean;
+    /** Passphrase sent when starting an encrypted array (empty if not encrypted) */
+    arrayDecryptionPassword: string;
+    /** Absolute paths of log files watched for new lines */
+    logFilePaths: string[];
+    /** Patterns counted in the watched log files */
+    logFilePatterns: LogFilePattern[];
+    /** Catalogue fields polled by `system.vars` in addition to the curated set */
+    systemVarsExtraFields: string[];
+}
+
+/**
+ * Parse the watched log file paths (one per line or comma separated)
+ *
+ * @param value - Raw setting value
+ */
+function parseLogFilePaths(value: unknown): string[] {
+    if (typeof value !== 'string') {
+        return [];
+    }
+    const paths = value
+        .split(/[\n,]/)
+        .map(path => path.trim())
+        .filter(path => path.startsWith('/'));
+    return [...new Set(paths)];
+}
+
+/**
+ * Parse the log file patterns (one `name=regex` per line)
+ *
+ * @param value - Raw setting value
+ */
+function parseLogFilePatterns(value: unknown): LogFilePattern[] {
+    if (typeof value !== 'string') {
+        return [];
+    }
+    const patterns: LogFilePattern[] = [];
+    for (const line of value.split('\n')) {
+        const separator = line.indexOf('=');
+        if (separator <= 0) {
+            continue;
+        }
+        const name = line.slice(0, separator).trim();
+        const pattern = line.slice(separator + 1).trim();
+        if (name && pattern) {
+            patterns.push({ name, pattern });
+        }
+    }
+    return patterns;
+}
+
+/**
+ * Parse the additional `system.vars` fields (comma separated or one per line).
+ * Names that are not part of the field catalogue are dropped.
+ *
+ * @param value - Raw setting value
+ */
+function parseSystemVarsExtraFields(value: unknown): string[] {
+    if (typeof value !== 'string') {
+        return [];
+    }
+    const known = new Set(SYSTEM_VARS_FIELD_CATALOGUE.map(field => field.name));
+    const fields = value
+        .split(/[\n,]/)
+        .map(field => field.trim())
+        .filter(field => known.has(field));
+    return [...new Set(fields)];
 }
 
 /**
@@ -38,6 +120,22 @@ export function validateConfig(
         Number.isFinite(pollIntervalSecondsRaw) && pollIntervalSecondsRaw > 0 ? pollIntervalSecondsRaw : 60;
     const allowSelfSigned = Boolean(config.allowSelfSigned);
     const useSubscriptions = Boolean(config.useSubscriptions);
+    const dockerStatsIntervalSecondsRaw = Number(config.dockerStatsIntervalSeconds ?? 30);
+    const dockerStatsIntervalSeconds =
+        Number.isFinite(dockerStatsIntervalSecondsRaw) && dockerStatsIntervalSecondsRaw >= 0
+            ? dockerStatsIntervalSecondsRaw
+            : 30;
+    const vmShutdownTimeoutSecondsRaw = Number(config.vmShutdownTimeoutSeconds ?? 120);
+    const vmShutdownTimeoutSeconds =
+        Number.isFinite(vmShutdownTimeoutSecondsRaw) && vmShutdownTimeoutSecondsRaw > 0
+            ? vmShutdownTimeoutSecondsRaw
+            : 120;
+    const arrayControlEnabled = Boolean(config.arrayControlEnabled);
+    const arrayDecryptionPassword =
+        typeof config.arrayDecryptionPassword === 'string' ? config.arrayDecryptionPassword : '';
+    const logFilePaths = parseLogFilePaths(config.logFilePaths);
+    const logFilePatterns = parseLogFilePatterns(config.logFilePatterns);
+    const systemVarsExtraFields = parseSystemVarsExtraFields(config.systemVarsExtraFields);
 
     const enabledDomainsRaw = Array.isArray(config.enabledDomains)
         ? (config.enabledDomains as string[])
@@ -72,5 +170,12 @@ export function validateConfig(
         allowSelfSigned,
         enabledDomains,
         useSubscriptions,
+        dockerStatsIntervalSeconds,
+        vmShutdownTimeoutSeconds,
+        arrayControlEnabled,
+        arrayDecryptionPassword,
+        logFilePaths,
+        logFilePatterns,
+        systemVarsExtraFields,
     };
 }
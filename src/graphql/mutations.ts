@@ -64,6 +64,60 @@ export const DOCKER_UPDATE_MUTATION = `
     }
 `;
 
+// Container removal - returns Boolean!
+export const DOCKER_REMOVE_MUTATION = `
+    mutation RemoveDockerContainer($id: PrefixedID!, $withImage: Boolean) {
+        docker {
+            removeContainer(id: $id, withImage: $withImage)
+        }
+    }
+`;
+
+// Replaces the autostart configuration; the entry order is the autostart order - returns Boolean!
+export const DOCKER_UPDATE_AUTOSTART_MUTATION = `
+    mutation UpdateDockerAutostart($entries: [DockerAutostartEntryInput!]!, $persistUserPreferences: Boolean) {
+        docker {
+            updateAutostartConfiguration(entries: $entries, persistUserPreferences: $persistUserPreferences)
+        }
+    }
+`;
+
+// Bulk Docker updates - return the processed containers; isUpdateAvailable tells whether each one was actually updated
+export const DOCKER_UPDATE_CONTAINERS_MUTATION = `
+    mutation UpdateDockerContainers($ids: [PrefixedID!]!) {
+        docker {
+            updateContainers(ids: $ids) {
+                id
+                names
+                state
+                status
+                isUpdateAvailable
+            }
+        }
+    }
+`;
+
+export const DOCKER_UPDATE_ALL_CONTAINERS_MUTATION = `
+    mutation UpdateAllDockerContainers {
+        docker {
+            updateAllContainers {
+                id
+                names
+                state
+                status
+                isUpdateAvailable
+            }
+        }
+    }
+`;
+
+// Re-checks the registry digests behind isUpdateAvailable - returns Boolean!
+export const DOCKER_REFRESH_DIGESTS_MUTATION = `
+    mutation RefreshDockerDigests {
+        refreshDockerDigests
+    }
+`;
+
 // VM mutations - all return Boolean!
 export const VM_START_MUTATION = `
     mutation StartVM($id: PrefixedID!) {
@@ -120,3 +174,131 @@ export const VM_RESET_MUTATION = `
         }
     }
 `;
+
+// Array mutations - return the UnraidArray object
+export const ARRAY_SET_STATE_MUTATION = `
+    mutation SetArrayState($input: ArrayStateInput!) {
+        array {
+            setState(input: $input) {
+                id
+                state
+            }
+        }
+    }
+`;
+
+// Parity check mutations - all return JSON!
+export const PARITY_CHECK_START_MUTATION = `
+    mutation StartParityCheck($correct: Boolean!) {
+        parityCheck {
+            start(correct: $correct)
+        }
+    }
+`;
+
+export const PARITY_CHECK_PAUSE_MUTATION = `
+    mutation PauseParityCheck {
+        parityCheck {
+            pause
+        }
+    }
+`;
+
+export const PARITY_CHECK_RESUME_MUTATION = `
+    mutation ResumeParityCheck {
+        parityCheck {
+            resume
+        }
+    }
+`;
+
+export const PARITY_CHECK_CANCEL_MUTATION = `
+    mutation CancelParityCheck {
+        parityCheck {
+            cancel
+        }
+    }
+`;
+
+// Notification mutations - top-level fields returning the notification or the refreshed overview
+export const NOTIFICATION_ARCHIVE_MUTATION = `
+    mutation ArchiveNotification($id: PrefixedID!) {
+        archiveNotification(id: $id) {
+            id
+            type
+        }
+    }
+`;
+
+export const NOTIFICATION_UNREAD_MUTATION = `
+    mutation UnreadNotification($id: PrefixedID!) {
+        unreadNotification(id: $id) {
+            id
+            type
+        }
+    }
+`;
+
+export const NOTIFICATION_ARCHIVE_ALL_MUTATION = `
+    mutation ArchiveAllNotifications($importance: NotificationImportance) {
+        archiveAll(importance: $importance) {
+            unread {
+                total
+            }
+            archive {
+                total
+            }
+        }
+    }
+`;
+
+export const NOTIFICATION_DELETE_ARCHIVED_MUTATION = `
+    mutation DeleteArchivedNotifications {
+        deleteArchivedNotifications {
+            unread {
+                total
+            }
+            archive {
+                total
+            }
+        }
+    }
+`;
+
+export const NOTIFICATION_RECALCULATE_OVERVIEW_MUTATION = `
+    mutation RecalculateNotificationOverview {
+        recalculateOverview {
+            unread {
+                total
+            }
+            archive {
+                total
+            }
+        }
+    }
+`;
+
+export const NOTIFICATION_CREATE_MUTATION = `
+    mutation CreateNotification($input: NotificationData!) {
+        createNotification(input: $input) {
+            id
+            title
+            subject
+            importance
+            timestamp
+        }
+    }
+`;
+
+// Returns null when an equivalent unread notification already exists
+export const NOTIFICATION_NOTIFY_IF_UNIQUE_MUTATION = `
+    mutation NotifyIfUnique($input: NotificationData!) {
+        notifyIfUnique(input: $input) {
+            id
+            title
+            subject
+            importance
+            timestamp
+        }
+    }
+`;
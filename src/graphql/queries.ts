@@ -0,0 +1,110 @@
+/**
+ * GraphQL on-demand query definitions (not part of the polling cycle)
+ * Based on Unraid API schema from docs/schema.graphql
+ */
+
+// Log file content - `startLine` is 1-indexed, without it the last `lines` lines are returned
+export const LOG_FILE_QUERY = `
+    query LogFile($path: String!, $lines: Int, $startLine: Int) {
+        logFile(path: $path, lines: $lines, startLine: $startLine) {
+            path
+            content
+            totalLines
+            startLine
+        }
+    }
+`;
+
+// Docker container ids by name - resolves the names written to `docker.updates.updateList`
+export const DOCKER_CONTAINER_IDS_QUERY = `
+    query DockerContainerIds {
+        docker {
+            containers {
+                id
+                names
+            }
+        }
+    }
+`;
+
+// Current autostart configuration of all containers - needed to rebuild the full ordered entry list
+export const DOCKER_AUTOSTART_QUERY = `
+    query DockerAutostart {
+        docker {
+            containers {
+                id
+                names
+                autoStart
+                autoStartOrder
+                autoStartWait
+            }
+        }
+    }
+`;
+
+// Docker organizer folders with member container states - resolved again before folder start/stop
+export const DOCKER_ORGANIZER_QUERY = `
+    query DockerOrganizer {
+        docker {
+            organizer {
+                views {
+                    id
+                    rootId
+                    flatEntries {
+                        id
+                        type
+                        name
+                        childrenIds
+                        meta {
+                            id
+                            names
+                            state
+                        }
+                    }
+                }
+            }
+        }
+    }
+`;
+
+// Docker container states - post-condition checks of composite actions (e.g. restart)
+export const DOCKER_CONTAINER_STATES_QUERY = `
+    query DockerContainerStates {
+        docker {
+            containers {
+                id
+                state
+            }
+        }
+    }
+`;
+
+// VM states - post-condition checks of composite VM actions (e.g. shutdownAndWait) and VM action verification
+export const VM_STATES_QUERY = `
+    query VmStates {
+        vms {
+            domains {
+                id
+                name
+                uuid
+                state
+            }
+        }
+    }
+`;
+
+// Docker container logs - `since` continues from a previously returned cursor
+export const DOCKER_CONTAINER_LOGS_QUERY = `
+    query DockerContainerLogs($id: PrefixedID!, $since: DateTime, $tail: Int) {
+        docker {
+            logs(id: $id, since: $since, tail: $tail) {
+                containerId
+                lines {
+                    timestamp
+                    message
+                }
+                cursor
+            }
+        }
+    }
+`;
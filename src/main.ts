@@ -1,16 +1,40 @@
 import { Adapter, type AdapterOptions } from '@iobroker/adapter-core';
 
-import { UnraidApolloClient } from './apollo-client';
+import {
+    DOCKER_CONTAINER_STATS_SUBSCRIPTION,
+    LOG_FILE_SUBSCRIPTION,
+    NOTIFICATION_ADDED_SUBSCRIPTION,
+    UPS_UPDATES_SUBSCRIPTION,
+    UnraidApolloClient,
+} from './apollo-client';
 import { StateManager } from './managers/state-manager';
 import { DynamicResourceManager } from './managers/dynamic-resource-manager';
 import { PollingManager } from './managers/polling-manager';
 import { ObjectManager } from './managers/object-manager';
 import { ControlManager } from './managers/control-manager';
+import { SubscriptionManager } from './managers/subscription-manager';
+import { LogManager } from './managers/log-manager';
 import { validateConfig } from './config/adapter-config';
-import { domainDefinitionById, expandSelection, type DomainDefinition, type DomainId } from './shared/unraid-domains';
+import {
+    buildSystemVarsDefinition,
+    domainDefinitionById,
+    expandSelection,
+    type DomainDefinition,
+    type DomainId,
+} from './shared/unraid-domains';
 import type { Capabilities } from './shared/capabilities';
 import { allCapabilitiesEnabled } from './shared/capabilities';
 
+/**
+ * Notification fields mirrored to `notifications.latest.*` when a warning/alert is pushed
+ */
+const LATEST_NOTIFICATION_FIELDS = ['id', 'title', 'subject', 'description', 'importance', 'timestamp'] as const;
+
+/**
+ * Interval of the slow schedule for rarely changing domains (`slowPoll`, e.g. `info.hardware`)
+ */
+const SLOW_POLL_INTERVAL_MS = 6 * 60 * 60_000;
+
 /**
  * Main adapter class for connecting ioBroker to Unraid servers.
  * Manages GraphQL polling, WebSocket subscriptions, and state updates.
@@ -20,13 +44,18 @@ class UnraidAdapter extends Adapter {
     private stateManager?: StateManager;
     private dynamicResourceManager?: DynamicResourceManager;
     private pollingManager?: PollingManager;
+    private slowPollingManager?: PollingManager;
     private controlManager?: ControlManager;
     private objectManager?: ObjectManager;
+    private subscriptionManager?: SubscriptionManager;
+    private logManager?: LogManager;
 
     private effectiveSelection: Set<DomainId> = new Set();
     private selectedDefinitions: DomainDefinition[] = [];
     private staticObjectIds: Set<string> = new Set();
     private capabilities: Capabilities = allCapabilitiesEnabled();
+    private arrayControlEnabled = false;
+    private dockerStatsIntervalMs = 0;
 
     /**
      * Creates a new Unraid adapter instance
@@ -42,6 +71,7 @@ class UnraidAdapter extends Adapter {
         this.on('ready', this.onReady.bind(this));
         this.on('unload', this.onUnload.bind(this));
         this.on('stateChange', this.onStateChange.bind(this));
+        this.on('message', this.onMessage.bind(this));
     }
 
     /**
@@ -58,7 +88,9 @@ class UnraidAdapter extends Adapter {
             }
 
             // Configure domain selection
-            this.configureSelection(config.enabledDomains);
+            this.configureSelection(config.enabledDomains, config.systemVarsExtraFields);
+            this.arrayControlEnabled = config.arrayControlEnabled;
+            this.dockerStatsIntervalMs = config.dockerStatsIntervalSeconds * 1000;
 
             if (!this.selectedDefinitions.length) {
                 this.log.warn('No domains selected. Configure at least one domain in the adapter settings.');
@@ -68,7 +100,7 @@ class UnraidAdapter extends Adapter {
             // Initialize managers
             this.stateManager = new StateManager(this);
             this.objectManager = new ObjectManager(this, this.stateManager);
-            this.dynamicResourceManager = new DynamicResourceManager(this, this.stateManager);
+            this.dynamicResourceManager = new DynamicResourceManager(this, this.stateManager, this.capabilities);
             this.dynamicResourceManager.setObjectManager(this.objectManager);
 
             // Initialize Apollo Client
@@ -95,9 +127,21 @@ class UnraidAdapter extends Adapter {
 
             // Initialize control manager (shares the same capabilities reference and
             // gets a callback to request an immediate re-poll after a successful mutation).
-            this.controlManager = new ControlManager(this, this.apolloClient, this.capabilities, () => {
-                this.pollingManager?.poll();
-            });
+            this.controlManager = new ControlManager(
+                this,
+                this.apolloClient,
+                this.capabilities,
+                () => {
+                    this.pollingManager?.poll();
+                },
+                config.arrayDecryptionPassword,
+                config.vmShutdownTimeoutSeconds * 1000,
+            );
+            this.controlManager.setObjectManager(this.objectManager);
+            this.controlManager.setDynamicResourceManager(this.dynamicResourceManager);
+
+            // Initialize log manager (on-demand container log fetches and watched log files)
+            this.logManager = new LogManager(this, this.apolloClient, this.stateManager, this.capabilities);
 
             // Initialize object manager and clean up unselected domains
             await this.objectManager.initialize(this.selectedDefinitions);
@@ -111,34 +155,211 @@ class UnraidAdapter extends Adapter {
             // Initialize static states
             await this.stateManager.initializeStaticStates(this.selectedDefinitions);
 
-            // Subscription support disabled for now (API issues)
-            // if (config.useSubscriptions) {
-            //     await this.initializeSubscriptions();
-            // }
+            if (this.effectiveSelection.has('logs.files')) {
+                await this.logManager.initializeLogFileWatches(config.logFilePaths, config.logFilePatterns);
+            }
+
+            if (config.useSubscriptions) {
+                this.initializeSubscriptions();
+            } else {
+                this.warnAboutSubscriptionOnlyUpdates();
+            }
 
             // Subscribe only to our own state changes
             this.subscribeStates(`${this.namespace}.*`);
 
-            // Start polling
-            this.pollingManager.start(config.pollIntervalSeconds * 1000, this.selectedDefinitions);
+            // Start polling; rarely changing domains are fetched at startup and on the slow schedule only
+            this.pollingManager.start(
+                config.pollIntervalSeconds * 1000,
+                this.selectedDefinitions.filter(definition => !definition.slowPoll),
+            );
+            const slowDefinitions = this.selectedDefinitions.filter(definition => definition.slowPoll);
+            if (slowDefinitions.length) {
+                this.slowPollingManager = new PollingManager(
+                    this,
+                    this.apolloClient,
+                    this.capabilities,
+                    this.handleSlowPolledData.bind(this),
+                );
+                this.slowPollingManager.start(SLOW_POLL_INTERVAL_MS, slowDefinitions);
+            }
         } catch (error) {
             this.log.error(`Failed to initialise adapter: ${this.describeError(error)}`);
         }
     }
 
+    /**
+     * Start WebSocket subscriptions for the selected domains.
+     * Polling keeps running as fallback; subscriptions only speed up delivery.
+     */
+    private initializeSubscriptions(): void {
+        if (!this.apolloClient) {
+            return;
+        }
+
+        this.subscriptionManager = new SubscriptionManager(this, this.apolloClient);
+
+        const notificationsSelected =
+            this.effectiveSelection.has('notifications.overview') ||
+            this.effectiveSelection.has('notifications.warningsAndAlerts');
+        if (notificationsSelected) {
+            if (this.capabilities.notificationSubscription) {
+                this.subscriptionManager.subscribe(
+                    'notificationAdded',
+                    NOTIFICATION_ADDED_SUBSCRIPTION,
+                    this.handleNotificationAdded.bind(this),
+                );
+            } else {
+                this.log.info('Unraid API does not offer notificationAdded, notifications are polled only.');
+            }
+        }
+
+        if (this.effectiveSelection.has('ups.devices')) {
+            if (this.capabilities.upsSubscription) {
+                this.subscriptionManager.subscribe(
+                    'upsUpdates',
+                    UPS_UPDATES_SUBSCRIPTION,
+                    this.handleUpsUpdate.bind(this),
+                );
+            } else {
+                this.log.info('Unraid API does not offer upsUpdates, UPS devices are polled only.');
+            }
+        }
+
+        if (this.effectiveSelection.has('docker.containers') && this.dockerStatsIntervalMs > 0) {
+            if (this.capabilities.dockerStatsSubscription) {
+                this.subscriptionManager.subscribe(
+                    'dockerContainerStats',
+                    DOCKER_CONTAINER_STATS_SUBSCRIPTION,
+                    this.handleDockerContainerStats.bind(this),
+                );
+            } else {
+                this.log.info('Unraid API does not offer dockerContainerStats, container stats are not available.');
+            }
+        }
+
+        const watchedLogFiles = this.logManager?.watchedLogFilePaths ?? [];
+        if (watchedLogFiles.length > 0) {
+            if (this.capabilities.logFileSubscription) {
+                for (const path of watchedLogFiles) {
+                    // The payload only signals a change; LogManager reads the new lines by line number
+                    this.subscriptionManager.subscribe(
+                        `logFile:${path}`,
+                        LOG_FILE_SUBSCRIPTION,
+                        () => this.logManager?.readNewLogLines(path) ?? Promise.resolve(),
+                        { path },
+                    );
+                }
+            } else {
+                this.log.info('Unraid API does not offer the logFile subscription, watched log files are polled only.');
+            }
+        }
+    }
+
+    /**
+     * Handle container stats pushed via the dockerContainerStats subscription
+     *
+     * @param data - Subscription payload
+     */
+    private async handleDockerContainerStats(data: Record<string, unknown>): Promise<void> {
+        const stats = data.dockerContainerStats;
+        if (!stats || typeof stats !== 'object' || !this.dynamicResourceManager) {
+            return;
+        }
+        await this.dynamicResourceManager.applyDockerContainerStats(
+            stats as Record<string, unknown>,
+            this.effectiveSelection,
+            this.dockerStatsIntervalMs,
+        );
+    }
+
+    /**
+     * Handle a UPS device pushed via the upsUpdates subscription
+     *
+     * @param data - Subscription payload
+     */
+    private async handleUpsUpdate(data: Record<string, unknown>): Promise<void> {
+        const device = data.upsUpdates;
+        if (!device || typeof device !== 'object' || !this.dynamicResourceManager) {
+            return;
+        }
+        await this.dynamicResourceManager.applyUpsUpdate(device as Record<string, unknown>, this.effectiveSelection);
+    }
+
+    /**
+     * Warn about selected domains whose live updates need WebSocket subscriptions.
+     * Their data is still polled, except for container stats which only exist as a subscription.
+     */
+    private warnAboutSubscriptionOnlyUpdates(): void {
+        const notificationsSelected =
+            this.effectiveSelection.has('notifications.overview') ||
+            this.effectiveSelection.has('notifications.warningsAndAlerts');
+        if (notificationsSelected) {
+            this.log.warn(
+                'New notifications are only picked up by the next poll. Enable "Use WebSocket Subscriptions" to receive them immediately.',
+            );
+        }
+        if (this.effectiveSelection.has('ups.devices')) {
+            this.log.warn(
+                'UPS readings are only refreshed by polling. Enable "Use WebSocket Subscriptions" to receive changes immediately.',
+            );
+        }
+        if (this.effectiveSelection.has('docker.containers') && this.dockerStatsIntervalMs > 0) {
+            this.log.warn(
+                'Docker container stats are only received via WebSocket subscriptions. Enable "Use WebSocket Subscriptions" to get docker.containers.<name>.stats.*',
+            );
+        }
+    }
+
+    /**
+     * Handle a notification pushed via the notificationAdded subscription
+     *
+     * @param data - Subscription payload
+     */
+    private async handleNotificationAdded(data: Record<string, unknown>): Promise<void> {
+        const notification = data.notificationAdded;
+        if (!notification || typeof notification !== 'object' || !this.stateManager) {
+            return;
+        }
+
+        const fields = notification as Record<string, unknown>;
+        const importance = typeof fields.importance === 'string' ? fields.importance : '';
+        this.log.debug(
+            `Notification pushed: ${importance} ${typeof fields.subject === 'string' ? fields.subject : ''}`,
+        );
+
+        if (
+            this.effectiveSelection.has('notifications.warningsAndAlerts') &&
+            (importance === 'WARNING' || importance === 'ALERT')
+        ) {
+            for (const field of LATEST_NOTIFICATION_FIELDS) {
+                const value = fields[field];
+                await this.stateManager.updateState(
+                    `notifications.latest.${field}`,
+                    typeof value === 'string' ? value : null,
+                );
+            }
+        }
+
+        // Counters and the warnings/alerts list are aggregated server-side, so refresh them right away
+        this.pollingManager?.poll();
+    }
+
     /**
      * Configure which domains should be queried based on settings.
      * Expands the selection to include dependencies.
      *
      * @param enabledDomains - List of explicitly enabled domain IDs
+     * @param systemVarsExtraFields - Catalogue fields polled by `system.vars` in addition to the curated set
      */
-    private configureSelection(enabledDomains: readonly DomainId[]): void {
+    private configureSelection(enabledDomains: readonly DomainId[], systemVarsExtraFields: readonly string[]): void {
         const rawSelection = new Set(enabledDomains);
         this.effectiveSelection = expandSelection(rawSelection);
 
         const definitions: DomainDefinition[] = [];
         for (const id of this.effectiveSelection) {
-            const definition = domainDefinitionById.get(id);
+            const definition =
+                id === 'system.vars' ? buildSystemVarsDefinition(systemVarsExtraFields) : domainDefinitionById.get(id);
             if (definition) {
                 definitions.push(definition);
             }
@@ -203,14 +424,53 @@ class UnraidAdapter extends Adapter {
         await this.dynamicResourceManager.handleDynamicDockerContainers(data, this.effectiveSelection);
         await this.dynamicResourceManager.handleDynamicShares(data, this.effectiveSelection);
         await this.dynamicResourceManager.handleDynamicVms(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleDynamicUpsDevices(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleDynamicPhysicalDisks(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleDynamicDockerNetworks(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleDynamicDockerFolders(data, this.effectiveSelection);
+        await this.dynamicResourceManager.handleParityCheckControls(this.effectiveSelection);
+        await this.dynamicResourceManager.handleArrayControls(this.effectiveSelection, this.arrayControlEnabled);
+        await this.dynamicResourceManager.handleNotificationControls(this.effectiveSelection);
+        await this.dynamicResourceManager.handleDockerUpdateControls(this.effectiveSelection);
+
+        if (this.effectiveSelection.has('logs.files')) {
+            await this.logManager?.pollLogFiles();
+        }
 
         // Apply static definitions
         for (const definition of this.selectedDefinitions) {
-            await this.stateManager.applyDefinition(definition, data);
+            if (!definition.slowPoll) {
+                await this.stateManager.applyDefinition(definition, data);
+            }
+        }
+    }
+
+    /**
+     * Handle data received from the slow schedule (`slowPoll` domains)
+     *
+     * @param data - GraphQL query result data
+     */
+    private async handleSlowPolledData(data: Record<string, unknown>): Promise<void> {
+        if (!this.stateManager || !this.dynamicResourceManager) {
+            this.log.error('Managers not initialized');
+            return;
+        }
+
+        await this.dynamicResourceManager.handleDynamicGpus(data, this.effectiveSelection);
+
+        for (const definition of this.selectedDefinitions) {
+            if (definition.slowPoll) {
+                await this.stateManager.applyDefinition(definition, data);
+            }
         }
     }
 
     private async onStateChange(id: string, state: ioBroker.State | null | undefined): Promise<void> {
+        // Container log fetch buttons are handled by LogManager
+        if (this.logManager && (await this.logManager.handleStateChange(id, state))) {
+            return;
+        }
+
         // Delegate control operations to ControlManager
         if (this.controlManager) {
             await this.controlManager.handleStateChange(id, state);
@@ -219,6 +479,60 @@ class UnraidAdapter extends Adapter {
         }
     }
 
+    /**
+     * Handle sendTo messages from scripts and other adapters.
+     * Supported commands: `notify` (create an Unraid notification) and
+     * `getContainerLogs` (fetch Docker container log lines).
+     *
+     * @param obj - Message object
+     */
+    private async onMessage(obj: ioBroker.Message): Promise<void> {
+        if (!obj || typeof obj !== 'object') {
+            return;
+        }
+
+        const respond = (response: Record<string, unknown>): void => {
+            if (obj.callback) {
+                this.sendTo(obj.from, obj.command, response, obj.callback);
+            }
+        };
+
+        switch (obj.command) {
+            case 'notify': {
+                if (!this.controlManager) {
+                    respond({ error: 'Adapter is not connected to the Unraid server' });
+                    return;
+                }
+                try {
+                    const notification = await this.controlManager.createNotification(obj.message);
+                    respond({ result: notification, created: notification !== null });
+                } catch (error) {
+                    this.log.warn(`notify message failed: ${this.describeError(error)}`);
+                    respond({ error: this.describeError(error) });
+                }
+                break;
+            }
+
+            case 'getContainerLogs': {
+                if (!this.logManager) {
+                    respond({ error: 'Adapter is not connected to the Unraid server' });
+                    return;
+                }
+                try {
+                    respond({ ...(await this.logManager.getContainerLogs(obj.message)) });
+                } catch (error) {
+                    this.log.warn(`getContainerLogs message failed: ${this.describeError(error)}`);
+                    respond({ error: this.describeError(error) });
+                }
+                break;
+            }
+
+            default:
+                this.log.warn(`Unknown message command: ${obj.command}`);
+                respond({ error: `Unknown command: ${obj.command}` });
+        }
+    }
+
     private describeError(error: unknown): string {
         if (error instanceof Error) {
             return error.message;
@@ -228,8 +542,10 @@ class UnraidAdapter extends Adapter {
 
     private onUnload(callback: () => void): void {
         try {
-            // Stop polling
+            // Stop polling and subscriptions
             this.pollingManager?.stop();
+            this.slowPollingManager?.stop();
+            this.subscriptionManager?.stop();
 
             // Dispose Apollo client (fire and forget)
             if (this.apolloClient) {
@@ -244,8 +560,11 @@ class UnraidAdapter extends Adapter {
             this.stateManager = undefined;
             this.dynamicResourceManager = undefined;
             this.pollingManager = undefined;
+            this.slowPollingManager = undefined;
             this.controlManager = undefined;
+            this.logManager = undefined;
             this.objectManager = undefined;
+            this.subscriptionManager = undefined;
 
             this.log.debug('Adapter cleanup completed');
         } catch (error) {
@@ -0,0 +1,1002 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { ControlManager } from './control-manager';
+import type { Capabilities } from '../shared/capabilities';
+import { allCapabilitiesEnabled } from '../shared/capabilities';
+import {
+    ARRAY_SET_STATE_MUTATION,
+    DOCKER_REFRESH_DIGESTS_MUTATION,
+    DOCKER_REMOVE_MUTATION,
+    DOCKER_START_MUTATION,
+    DOCKER_STOP_MUTATION,
+    DOCKER_UPDATE_ALL_CONTAINERS_MUTATION,
+    DOCKER_UPDATE_CONTAINERS_MUTATION,
+    NOTIFICATION_ARCHIVE_ALL_MUTATION,
+    NOTIFICATION_ARCHIVE_MUTATION,
+    NOTIFICATION_CREATE_MUTATION,
+    NOTIFICATION_DELETE_ARCHIVED_MUTATION,
+    NOTIFICATION_NOTIFY_IF_UNIQUE_MUTATION,
+    NOTIFICATION_UNREAD_MUTATION,
+    PARITY_CHECK_CANCEL_MUTATION,
+    PARITY_CHECK_PAUSE_MUTATION,
+    PARITY_CHECK_RESUME_MUTATION,
+    PARITY_CHECK_START_MUTATION,
+    VM_FORCE_STOP_MUTATION,
+    VM_REBOOT_MUTATION,
+    VM_START_MUTATION,
+    VM_STOP_MUTATION,
+} from '../graphql/mutations';
+import type { UnraidApolloClient } from '../apollo-client';
+import type { AdapterInterface } from '../types/adapter-types';
+import type { DynamicResourceManager } from './dynamic-resource-manager';
+import type { ObjectManager } from './object-manager';
+
+interface Fixture {
+    manager: ControlManager;
+    adapter: {
+        log: { debug: sinon.SinonStub; info: sinon.SinonStub; warn: sinon.SinonStub; error: sinon.SinonStub };
+        getObjectAsync: sinon.SinonStub;
+        setStateAsync: sinon.SinonStub;
+        setTimeout: sinon.SinonSpy;
+        clearTimeout: sinon.SinonSpy;
+    };
+    apolloClient: { query: sinon.SinonStub; mutate: sinon.SinonStub };
+    triggerPoll: sinon.SinonStub;
+}
+
+interface FixtureOptions {
+    /** Capabilities to use (all enabled by default) */
+    capabilities?: Capabilities;
+    /** Passphrase for encrypted arrays */
+    arrayDecryptionPassword?: string;
+    /** Time `shutdownAndWait` waits before forcing a VM off */
+    vmShutdownTimeoutMs?: number;
+}
+
+/**
+ * Create a ControlManager with stubbed adapter and client.
+ * Button objects are registered via `buttons` (state id => native).
+ * Adapter timers are backed by the global timers, so sinon fake timers control them.
+ *
+ * @param buttons - Native data of the command buttons by state id
+ * @param options - Optional constructor arguments
+ */
+function createFixture(buttons: Record<string, Record<string, unknown>> = {}, options: FixtureOptions = {}): Fixture {
+    const adapter = {
+        log: { debug: sinon.stub(), info: sinon.stub(), warn: sinon.stub(), error: sinon.stub() },
+        getObjectAsync: sinon
+            .stub()
+            .callsFake((id: string) => Promise.resolve(buttons[id] ? { native: buttons[id] } : null)),
+        setStateAsync: sinon.stub().resolves(),
+        setTimeout: sinon.spy((callback: () => void, ms: number) => setTimeout(callback, ms)),
+        clearTimeout: sinon.spy((timer: NodeJS.Timeout) => clearTimeout(timer)),
+    };
+    const apolloClient = { query: sinon.stub().resolves({}), mutate: sinon.stub().resolves({}) };
+    const triggerPoll = sinon.stub();
+    const manager = new ControlManager(
+        adapter as unknown as AdapterInterface,
+        apolloClient as unknown as UnraidApolloClient,
+        options.capabilities ?? allCapabilitiesEnabled(),
+        triggerPoll,
+        options.arrayDecryptionPassword,
+        options.vmShutdownTimeoutMs,
+    );
+    return { manager, adapter, apolloClient, triggerPoll };
+}
+
+/**
+ * Press a button (write true without ack)
+ *
+ * @param fixture - Test fixture
+ * @param id - Full state id of the button
+ */
+function press(fixture: Fixture, id: string): Promise<void> {
+    return fixture.manager.handleStateChange(id, { val: true, ack: false } as ioBroker.State);
+}
+
+describe('ControlManager => parity check control', () => {
+    const button = (action: string): Record<string, Record<string, unknown>> => ({
+        [`unraid.0.array.parityCheck.commands.${action}`]: { resourceType: 'array', resourceId: 'parityCheck', action },
+    });
+
+    it('should start a read-only or a correcting check', async () => {
+        const fixture = createFixture({ ...button('start'), ...button('startCorrecting') });
+
+        await press(fixture, 'unraid.0.array.parityCheck.commands.start');
+        await press(fixture, 'unraid.0.array.parityCheck.commands.startCorrecting');
+
+        expect(fixture.apolloClient.mutate.firstCall.args).to.deep.equal([
+            PARITY_CHECK_START_MUTATION,
+            { correct: false },
+        ]);
+        expect(fixture.apolloClient.mutate.secondCall.args).to.deep.equal([
+            PARITY_CHECK_START_MUTATION,
+            { correct: true },
+        ]);
+    });
+
+    it('should send the mutation matching pause, resume and cancel', async () => {
+        const fixture = createFixture({ ...button('pause'), ...button('resume'), ...button('cancel') });
+
+        await press(fixture, 'unraid.0.array.parityCheck.commands.pause');
+        await press(fixture, 'unraid.0.array.parityCheck.commands.resume');
+        await press(fixture, 'unraid.0.array.parityCheck.commands.cancel');
+
+        expect(fixture.apolloClient.mutate.args.map(args => args[0])).to.deep.equal([
+            PARITY_CHECK_PAUSE_MUTATION,
+            PARITY_CHECK_RESUME_MUTATION,
+            PARITY_CHECK_CANCEL_MUTATION,
+        ]);
+        expect(fixture.triggerPoll).to.have.been.calledThrice;
+    });
+
+    it('should reset the button after the action', async () => {
+        const fixture = createFixture(button('pause'));
+
+        await press(fixture, 'unraid.0.array.parityCheck.commands.pause');
+
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith('unraid.0.array.parityCheck.commands.pause', {
+            val: false,
+            ack: true,
+        });
+    });
+
+    it('should ignore the buttons when the server has no parity check mutation', async () => {
+        const fixture = createFixture(button('start'), {
+            capabilities: { ...allCapabilitiesEnabled(), parityCheckControl: false },
+        });
+
+        await press(fixture, 'unraid.0.array.parityCheck.commands.start');
+        await press(fixture, 'unraid.0.array.parityCheck.commands.start');
+
+        expect(fixture.apolloClient.mutate).to.not.have.been.called;
+        expect(fixture.adapter.log.warn).to.have.been.calledOnce;
+    });
+});
+
+describe('ControlManager => array start/stop arming', () => {
+    const buttons = Object.fromEntries(
+        ['arm', 'start', 'stop'].map(action => [
+            `unraid.0.array.commands.${action}`,
+            { resourceType: 'array', resourceId: 'array', action },
+        ]),
+    );
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers({ now: Date.now() });
+    });
+
+    afterEach(() => {
+        clock.restore();
+    });
+
+    it('should ignore start and stop when not armed', async () => {
+        const fixture = createFixture(buttons);
+
+        await press(fixture, 'unraid.0.array.commands.start');
+        await press(fixture, 'unraid.0.array.commands.stop');
+
+        expect(fixture.apolloClient.mutate).to.not.have.been.called;
+        expect(fixture.adapter.log.warn).to.have.been.calledTwice;
+    });
+
+    it('should accept exactly one action after arming', async () => {
+        const fixture = createFixture(buttons);
+        fixture.apolloClient.mutate.resolves({ array: { setState: { state: 'STOPPED' } } });
+
+        await press(fixture, 'unraid.0.array.commands.arm');
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith('array.controlArmed', true, true);
+
+        await press(fixture, 'unraid.0.array.commands.stop');
+        await press(fixture, 'unraid.0.array.commands.stop');
+
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWithExactly(
+            ARRAY_SET_STATE_MUTATION,
+            { input: { desiredState: 'STOP' } },
+            [],
+        );
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith('array.controlArmed', false, true);
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith('array.state', 'STOPPED', true);
+    });
+
+    it('should disarm automatically after the arm window', async () => {
+        const fixture = createFixture(buttons);
+
+        await press(fixture, 'unraid.0.array.commands.arm');
+        fixture.adapter.setStateAsync.resetHistory();
+        clock.tick(60_001);
+
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith('array.controlArmed', false, true);
+        await press(fixture, 'unraid.0.array.commands.start');
+        expect(fixture.apolloClient.mutate).to.not.have.been.called;
+    });
+
+    it('should cancel the pending disarm timer when the arming is used', async () => {
+        const fixture = createFixture(buttons);
+
+        await press(fixture, 'unraid.0.array.commands.arm');
+        await press(fixture, 'unraid.0.array.commands.start');
+
+        expect(fixture.adapter.clearTimeout).to.have.been.calledOnce;
+        expect(clock.countTimers()).to.equal(0);
+    });
+
+    it('should send the passphrase only when starting and mark it as secret', async () => {
+        const fixture = createFixture(buttons, { arrayDecryptionPassword: 'pass phrase' });
+
+        await press(fixture, 'unraid.0.array.commands.arm');
+        await press(fixture, 'unraid.0.array.commands.start');
+        await press(fixture, 'unraid.0.array.commands.arm');
+        await press(fixture, 'unraid.0.array.commands.stop');
+
+        expect(fixture.apolloClient.mutate.firstCall.args).to.deep.equal([
+            ARRAY_SET_STATE_MUTATION,
+            { input: { desiredState: 'START', decryptionPassword: 'pass phrase' } },
+            ['pass phrase'],
+        ]);
+        expect(fixture.apolloClient.mutate.secondCall.args).to.deep.equal([
+            ARRAY_SET_STATE_MUTATION,
+            { input: { desiredState: 'STOP' } },
+            [],
+        ]);
+        for (const args of fixture.adapter.log.info.args) {
+            expect(String(args[0])).to.not.contain('pass phrase');
+        }
+    });
+});
+
+describe('ControlManager => container removal arming', () => {
+    const buttons = Object.fromEntries(
+        ['plex', 'radarr'].flatMap(name =>
+            ['arm', 'remove', 'removeWithImage'].map(action => [
+                `unraid.0.docker.containers.${name}.commands.${action}`,
+                { resourceType: 'docker', resourceId: `server:${name}-id`, action },
+            ]),
+        ),
+    );
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers({ now: Date.now() });
+    });
+
+    afterEach(() => {
+        clock.restore();
+    });
+
+    /**
+     * Create a fixture whose server confirms removals, with a stubbed ObjectManager
+     */
+    function createRemovalFixture(): Fixture & { objectManager: { removeDynamicResource: sinon.SinonStub } } {
+        const fixture = createFixture(buttons);
+        fixture.apolloClient.mutate.resolves({ docker: { removeContainer: true } });
+        const objectManager = { removeDynamicResource: sinon.stub().resolves() };
+        fixture.manager.setObjectManager(objectManager as unknown as ObjectManager);
+        return { ...fixture, objectManager };
+    }
+
+    it('should ignore remove when not armed', async () => {
+        const fixture = createRemovalFixture();
+
+        await press(fixture, 'unraid.0.docker.containers.plex.commands.remove');
+
+        expect(fixture.apolloClient.mutate).to.not.have.been.called;
+        expect(fixture.adapter.log.warn).to.have.been.calledOnce;
+    });
+
+    it('should remove the container and drop its objects after arming', async () => {
+        const fixture = createRemovalFixture();
+
+        await press(fixture, 'unraid.0.docker.containers.plex.commands.arm');
+        await press(fixture, 'unraid.0.docker.containers.plex.commands.removeWithImage');
+
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWithExactly(DOCKER_REMOVE_MUTATION, {
+            id: 'server:plex-id',
+            withImage: true,
+        });
+        expect(fixture.objectManager.removeDynamicResource).to.have.been.calledOnceWithExactly('docker', 'plex');
+    });
+
+    it('should accept exactly one removal per arming', async () => {
+        const fixture = createRemovalFixture();
+
+        await press(fixture, 'unraid.0.docker.containers.plex.commands.arm');
+        await press(fixture, 'unraid.0.docker.containers.plex.commands.remove');
+        await press(fixture, 'unraid.0.docker.containers.plex.commands.remove');
+
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWith(DOCKER_REMOVE_MUTATION, {
+            id: 'server:plex-id',
+            withImage: false,
+        });
+    });
+
+    it('should only arm the container whose arm button was pressed', async () => {
+        const fixture = createRemovalFixture();
+
+        await press(fixture, 'unraid.0.docker.containers.plex.commands.arm');
+        await press(fixture, 'unraid.0.docker.containers.radarr.commands.remove');
+
+        expect(fixture.apolloClient.mutate).to.not.have.been.called;
+    });
+
+    it('should expire the arming after the arm window', async () => {
+        const fixture = createRemovalFixture();
+
+        await press(fixture, 'unraid.0.docker.containers.plex.commands.arm');
+        clock.tick(60_001);
+        await press(fixture, 'unraid.0.docker.containers.plex.commands.remove');
+
+        expect(fixture.apolloClient.mutate).to.not.have.been.called;
+    });
+
+    it('should keep the objects when the server does not confirm the removal', async () => {
+        const fixture = createRemovalFixture();
+        fixture.apolloClient.mutate.resolves({ docker: { removeContainer: false } });
+
+        await press(fixture, 'unraid.0.docker.containers.plex.commands.arm');
+        await press(fixture, 'unraid.0.docker.containers.plex.commands.remove');
+
+        expect(fixture.objectManager.removeDynamicResource).to.not.have.been.called;
+        expect(fixture.adapter.log.error).to.have.been.calledOnce;
+    });
+});
+
+describe('ControlManager => notification management', () => {
+    const buttons = Object.fromEntries(
+        [
+            'archiveAll',
+            'archiveAllInfo',
+            'archiveAllWarning',
+            'archiveAllAlert',
+            'archive',
+            'markUnread',
+            'deleteArchived',
+            'toString',
+        ].map(action => [
+            `unraid.0.notifications.commands.${action}`,
+            { resourceType: 'notification', resourceId: 'notifications', action },
+        ]),
+    );
+
+    const write = (fixture: Fixture, action: string, val: string): Promise<void> =>
+        fixture.manager.handleStateChange(`unraid.0.notifications.commands.${action}`, {
+            val,
+            ack: false,
+        } as ioBroker.State);
+
+    it('should archive all notifications or only those of one importance', async () => {
+        const fixture = createFixture(buttons);
+
+        await press(fixture, 'unraid.0.notifications.commands.archiveAll');
+        await press(fixture, 'unraid.0.notifications.commands.archiveAllWarning');
+        await press(fixture, 'unraid.0.notifications.commands.archiveAllAlert');
+
+        expect(fixture.apolloClient.mutate.args).to.deep.equal([
+            [NOTIFICATION_ARCHIVE_ALL_MUTATION, { importance: null }],
+            [NOTIFICATION_ARCHIVE_ALL_MUTATION, { importance: 'WARNING' }],
+            [NOTIFICATION_ARCHIVE_ALL_MUTATION, { importance: 'ALERT' }],
+        ]);
+    });
+
+    it('should not treat inherited object keys as archiveAll actions', async () => {
+        const fixture = createFixture(buttons);
+
+        await press(fixture, 'unraid.0.notifications.commands.toString');
+
+        expect(fixture.apolloClient.mutate).to.not.have.been.called;
+        expect(fixture.adapter.log.error).to.have.been.calledOnce;
+    });
+
+    it('should archive or mark unread the notification with the written id and clear the input', async () => {
+        const fixture = createFixture(buttons);
+
+        await write(fixture, 'archive', ' notification-1 ');
+        await write(fixture, 'markUnread', 'notification-2');
+
+        expect(fixture.apolloClient.mutate.args).to.deep.equal([
+            [NOTIFICATION_ARCHIVE_MUTATION, { id: 'notification-1' }],
+            [NOTIFICATION_UNREAD_MUTATION, { id: 'notification-2' }],
+        ]);
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith('unraid.0.notifications.commands.archive', {
+            val: '',
+            ack: true,
+        });
+    });
+
+    it('should reject an id input without a notification id', async () => {
+        const fixture = createFixture(buttons);
+
+        await write(fixture, 'archive', '   ');
+
+        expect(fixture.apolloClient.mutate).to.not.have.been.called;
+        expect(fixture.adapter.log.error).to.have.been.calledOnce;
+    });
+
+    it('should delete all archived notifications', async () => {
+        const fixture = createFixture(buttons);
+
+        await press(fixture, 'unraid.0.notifications.commands.deleteArchived');
+
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWithExactly(NOTIFICATION_DELETE_ARCHIVED_MUTATION);
+    });
+});
+
+describe('ControlManager => notification creation', () => {
+    const notifyButton = {
+        'unraid.0.notifications.commands.notify': {
+            resourceType: 'notification',
+            resourceId: 'notifications',
+            action: 'notify',
+        },
+    };
+
+    it('should create a notification from an object with INFO as default importance', async () => {
+        const fixture = createFixture();
+        fixture.apolloClient.mutate.resolves({ createNotification: { id: 'n1' } });
+
+        const result = await fixture.manager.createNotification({ title: 'Backup', subject: 'Done' });
+
+        expect(result).to.deep.equal({ id: 'n1' });
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWithExactly(NOTIFICATION_CREATE_MUTATION, {
+            input: { title: 'Backup', subject: 'Done', description: '', importance: 'INFO' },
+        });
+    });
+
+    it('should use notifyIfUnique and report an existing equivalent notification', async () => {
+        const fixture = createFixture();
+        fixture.apolloClient.mutate.resolves({ notifyIfUnique: null });
+
+        const result = await fixture.manager.createNotification(
+            '{"title": "UPS", "subject": "On battery", "importance": "alert", "link": "/Dashboard", "unique": true}',
+        );
+
+        expect(result).to.equal(null);
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWithExactly(NOTIFICATION_NOTIFY_IF_UNIQUE_MUTATION, {
+            input: { title: 'UPS', subject: 'On battery', description: '', importance: 'ALERT', link: '/Dashboard' },
+        });
+    });
+
+    it('should reject invalid payloads before sending anything', async () => {
+        const fixture = createFixture();
+
+        await expect(fixture.manager.createNotification('not json')).to.be.rejectedWith('not valid JSON');
+        await expect(fixture.manager.createNotification(['title'])).to.be.rejectedWith('must be an object');
+        await expect(fixture.manager.createNotification({ title: 'Only title' })).to.be.rejectedWith(
+            'subject is required',
+        );
+        await expect(
+            fixture.manager.createNotification({ title: 'T', subject: 'S', importance: 'CRITICAL' }),
+        ).to.be.rejectedWith('Invalid notification importance');
+        expect(fixture.apolloClient.mutate).to.not.have.been.called;
+    });
+
+    it('should refuse to create notifications without the server mutation', async () => {
+        const fixture = createFixture({}, { capabilities: { ...allCapabilitiesEnabled(), notificationCreate: false } });
+
+        await expect(fixture.manager.createNotification({ title: 'T', subject: 'S' })).to.be.rejectedWith(
+            'not supported',
+        );
+    });
+
+    it('should create notifications written to commands.notify even without the archive mutations', async () => {
+        const fixture = createFixture(notifyButton, {
+            capabilities: { ...allCapabilitiesEnabled(), notificationControl: false },
+        });
+
+        await fixture.manager.handleStateChange('unraid.0.notifications.commands.notify', {
+            val: '{"title": "T", "subject": "S"}',
+            ack: false,
+        } as ioBroker.State);
+
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnce;
+        expect(fixture.apolloClient.mutate.firstCall.args[0]).to.equal(NOTIFICATION_CREATE_MUTATION);
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith('unraid.0.notifications.commands.notify', {
+            val: '',
+            ack: true,
+        });
+    });
+});
+
+describe('ControlManager => bulk Docker updates', () => {
+    const buttons = {
+        'unraid.0.docker.updates.commands.updateAll': { resourceType: 'dockerUpdates', action: 'updateAll' },
+        'unraid.0.docker.updates.commands.refreshDigests': { resourceType: 'dockerUpdates', action: 'refreshDigests' },
+        'unraid.0.docker.updates.updateList': { resourceType: 'dockerUpdates', action: 'updateList' },
+    };
+    const updated = (name: string, isUpdateAvailable: boolean): Record<string, unknown> => ({
+        id: `server:${name}`,
+        names: [`/${name}`],
+        state: 'RUNNING',
+        status: 'Up 1 second',
+        isUpdateAvailable,
+    });
+
+    /**
+     * Parsed content of the last `docker.updates.lastResult` write
+     *
+     * @param fixture - Test fixture
+     */
+    function lastResult(fixture: Fixture): Record<string, unknown> {
+        const call = fixture.adapter.setStateAsync.args.filter(args => args[0] === 'docker.updates.lastResult').pop();
+        return JSON.parse(call?.[1] as string) as Record<string, unknown>;
+    }
+
+    it('should report each container as updated only when no update is left', async () => {
+        const fixture = createFixture(buttons);
+        fixture.apolloClient.mutate.resolves({
+            docker: { updateAllContainers: [updated('plex', false), updated('radarr', true)] },
+        });
+
+        await press(fixture, 'unraid.0.docker.updates.commands.updateAll');
+
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWith(DOCKER_UPDATE_ALL_CONTAINERS_MUTATION);
+        const result = lastResult(fixture);
+        expect(result).to.include({ action: 'updateAll', success: false });
+        expect(result.containers).to.deep.equal([
+            { name: 'plex', updated: true, state: 'RUNNING', status: 'Up 1 second' },
+            {
+                name: 'radarr',
+                updated: false,
+                state: 'RUNNING',
+                status: 'Up 1 second',
+                error: 'Update still available after the update',
+            },
+        ]);
+    });
+
+    it('should resolve the names of the update list to ids and report unknown names', async () => {
+        const fixture = createFixture(buttons);
+        fixture.apolloClient.query.resolves({
+            docker: {
+                containers: [
+                    { id: 'server:plex', names: ['/plex'] },
+                    { id: 'server:sonarr', names: ['/sonarr'] },
+                ],
+            },
+        });
+        fixture.apolloClient.mutate.resolves({ docker: { updateContainers: [updated('plex', false)] } });
+
+        await fixture.manager.handleStateChange('unraid.0.docker.updates.updateList', {
+            val: '["plex", "/plex", "ghost"]',
+            ack: false,
+        } as ioBroker.State);
+
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWith(DOCKER_UPDATE_CONTAINERS_MUTATION, {
+            ids: ['server:plex'],
+        });
+        expect(lastResult(fixture).containers).to.deep.equal([
+            { name: 'plex', updated: true, state: 'RUNNING', status: 'Up 1 second' },
+            { name: 'ghost', updated: false, error: 'Container not found' },
+        ]);
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith('unraid.0.docker.updates.updateList', {
+            val: '',
+            ack: true,
+        });
+    });
+
+    it('should reject an update list that is not a JSON array of names', async () => {
+        const fixture = createFixture(buttons);
+
+        await fixture.manager.handleStateChange('unraid.0.docker.updates.updateList', {
+            val: 'plex, radarr',
+            ack: false,
+        } as ioBroker.State);
+
+        expect(fixture.apolloClient.mutate).to.not.have.been.called;
+        expect(lastResult(fixture)).to.deep.include({
+            action: 'updateList',
+            success: false,
+            error: 'Docker update list is not valid JSON',
+        });
+    });
+
+    it('should refresh the registry digests', async () => {
+        const fixture = createFixture(buttons);
+        fixture.apolloClient.mutate.resolves({ refreshDockerDigests: true });
+
+        await press(fixture, 'unraid.0.docker.updates.commands.refreshDigests');
+
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWith(DOCKER_REFRESH_DIGESTS_MUTATION);
+        expect(lastResult(fixture)).to.include({ action: 'refreshDigests', success: true });
+    });
+
+    it('should not update anything without the bulk update mutations', async () => {
+        const fixture = createFixture(buttons, {
+            capabilities: { ...allCapabilitiesEnabled(), dockerBulkUpdate: false },
+        });
+
+        await press(fixture, 'unraid.0.docker.updates.commands.updateAll');
+
+        expect(fixture.apolloClient.mutate).to.not.have.been.called;
+        expect(fixture.adapter.log.warn).to.have.been.calledOnce;
+    });
+});
+
+describe('ControlManager => autostart configuration', () => {
+    const container = (
+        name: string,
+        autoStartOrder: number | null,
+        autoStart = true,
+        autoStartWait: number | null = 0,
+    ): Record<string, unknown> => ({
+        id: `container:${name}`,
+        names: [`/${name}`],
+        autoStart,
+        autoStartOrder,
+        autoStartWait,
+    });
+
+    /**
+     * Create a fixture whose server reports containers in an API order that differs from the autostart order
+     */
+    function createAutoStartFixture(): Fixture {
+        const fixture = createFixture();
+        fixture.apolloClient.query.resolves({
+            docker: {
+                containers: [
+                    container('delta', null, false, null),
+                    container('charlie', 2),
+                    container('alpha', 0),
+                    container('bravo', 1, true, 10),
+                ],
+            },
+        });
+        fixture.apolloClient.mutate.resolves({ updateAutostartConfiguration: true });
+        return fixture;
+    }
+
+    const change = (fixture: Fixture, name: string, field: string, val: ioBroker.StateValue): Promise<void> =>
+        fixture.manager.handleStateChange(`unraid.0.docker.containers.${name}.${field}`, {
+            val,
+            ack: false,
+        } as ioBroker.State);
+
+    const sentEntries = (fixture: Fixture): Array<{ id: string; autoStart: boolean; wait: number | null }> =>
+        (
+            fixture.apolloClient.mutate.firstCall.args[1] as {
+                entries: Array<{ id: string; autoStart: boolean; wait: number | null }>;
+            }
+        ).entries;
+
+    it('should move a container to the front', async () => {
+        const fixture = createAutoStartFixture();
+
+        await change(fixture, 'charlie', 'autoStartOrder', 0);
+
+        expect(sentEntries(fixture).map(entry => entry.id)).to.deep.equal([
+            'container:charlie',
+            'container:alpha',
+            'container:bravo',
+            'container:delta',
+        ]);
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith(
+            'unraid.0.docker.containers.charlie.autoStartOrder',
+            { val: 0, ack: true },
+        );
+        expect(fixture.triggerPoll).to.have.been.calledOnce;
+    });
+
+    it('should insert in front of the container holding the requested position', async () => {
+        const fixture = createAutoStartFixture();
+
+        await change(fixture, 'alpha', 'autoStartOrder', 2);
+
+        expect(sentEntries(fixture).map(entry => entry.id)).to.deep.equal([
+            'container:bravo',
+            'container:alpha',
+            'container:charlie',
+            'container:delta',
+        ]);
+    });
+
+    it('should move a container behind all ordered containers for a large position', async () => {
+        const fixture = createAutoStartFixture();
+
+        await change(fixture, 'alpha', 'autoStartOrder', 99);
+
+        expect(sentEntries(fixture).map(entry => entry.id)).to.deep.equal([
+            'container:bravo',
+            'container:charlie',
+            'container:alpha',
+            'container:delta',
+        ]);
+    });
+
+    it('should keep the order and the other settings when changing the wait time', async () => {
+        const fixture = createAutoStartFixture();
+
+        await change(fixture, 'bravo', 'autoStartWait', 30);
+
+        expect(sentEntries(fixture)).to.deep.equal([
+            { id: 'container:alpha', autoStart: true, wait: 0 },
+            { id: 'container:bravo', autoStart: true, wait: 30 },
+            { id: 'container:charlie', autoStart: true, wait: 0 },
+            { id: 'container:delta', autoStart: false, wait: null },
+        ]);
+    });
+
+    it('should accept false to disable autostart', async () => {
+        const fixture = createAutoStartFixture();
+
+        await change(fixture, 'alpha', 'autoStart', false);
+
+        expect(sentEntries(fixture)[0]).to.deep.equal({ id: 'container:alpha', autoStart: false, wait: 0 });
+    });
+
+    it('should reject invalid values without sending a mutation', async () => {
+        const fixture = createAutoStartFixture();
+
+        await change(fixture, 'alpha', 'autoStartOrder', -1);
+
+        expect(fixture.apolloClient.mutate).to.not.have.been.called;
+        expect(fixture.adapter.log.error).to.have.been.calledOnce;
+        expect(fixture.triggerPoll).to.have.been.calledOnce;
+    });
+});
+
+/**
+ * Parsed content of the last write to a JSON result state
+ *
+ * @param fixture - Test fixture
+ * @param id - State id of the result state
+ */
+function lastJson(fixture: Fixture, id: string): Record<string, unknown> {
+    const call = fixture.adapter.setStateAsync.args.filter(args => args[0] === id).pop();
+    return JSON.parse(call?.[1] as string) as Record<string, unknown>;
+}
+
+describe('ControlManager => container restart', () => {
+    const restartButton = 'unraid.0.docker.containers.plex.commands.restart';
+    const resultState = 'unraid.0.docker.containers.plex.commands.lastResult';
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers({ now: Date.now() });
+    });
+
+    afterEach(() => {
+        clock.restore();
+    });
+
+    /**
+     * Create a fixture whose container changes its state on stop/start mutations
+     *
+     * @param initialState - Container state before the restart
+     * @param reacts - Whether the container follows the mutations
+     */
+    function createRestartFixture(initialState: string, reacts = true): Fixture {
+        const fixture = createFixture({
+            [restartButton]: { resourceType: 'docker', resourceId: 'server:plex-id', action: 'restart' },
+        });
+        let state = initialState;
+        fixture.apolloClient.query.callsFake(() =>
+            Promise.resolve({ docker: { containers: [{ id: 'server:plex-id', state }] } }),
+        );
+        fixture.apolloClient.mutate.callsFake((mutation: string) => {
+            if (reacts) {
+                state = mutation === DOCKER_STOP_MUTATION ? 'EXITED' : 'RUNNING';
+            }
+            return Promise.resolve({});
+        });
+        return fixture;
+    }
+
+    it('should release the button before the restart has finished', async () => {
+        const fixture = createRestartFixture('RUNNING');
+
+        await press(fixture, restartButton);
+
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith(restartButton, { val: false, ack: true });
+        expect(lastJson(fixture, resultState)).to.include({ action: 'restart', status: 'running' });
+        await clock.tickAsync(10_000);
+    });
+
+    it('should stop, wait for EXITED, start and wait for RUNNING', async () => {
+        const fixture = createRestartFixture('RUNNING');
+
+        await press(fixture, restartButton);
+        await clock.tickAsync(10_000);
+
+        expect(fixture.apolloClient.mutate.args.map(args => args[0])).to.deep.equal([
+            DOCKER_STOP_MUTATION,
+            DOCKER_START_MUTATION,
+        ]);
+        expect(lastJson(fixture, resultState)).to.deep.include({
+            status: 'succeeded',
+            step: null,
+            completedSteps: ['stop', 'start'],
+        });
+        expect(fixture.triggerPoll).to.have.been.calledTwice;
+    });
+
+    it('should skip stopping a container that has already exited', async () => {
+        const fixture = createRestartFixture('EXITED');
+
+        await press(fixture, restartButton);
+        await clock.tickAsync(10_000);
+
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWith(DOCKER_START_MUTATION);
+        expect(lastJson(fixture, resultState)).to.include({ status: 'succeeded' });
+    });
+
+    it('should fail when the container does not stop in time', async () => {
+        const fixture = createRestartFixture('RUNNING', false);
+
+        await press(fixture, restartButton);
+        await clock.tickAsync(62_000);
+
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWith(DOCKER_STOP_MUTATION);
+        expect(lastJson(fixture, resultState)).to.deep.include({
+            status: 'failed',
+            step: 'stop',
+            completedSteps: [],
+            error: 'Step stop did not complete within 60 seconds',
+        });
+        expect(fixture.adapter.log.error).to.have.been.calledOnce;
+    });
+});
+
+describe('ControlManager => VM shutdownAndWait', () => {
+    const shutdownButton = 'unraid.0.vms.win11.commands.shutdownAndWait';
+    const resultState = 'unraid.0.vms.win11.commands.lastResult';
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers({ now: Date.now() });
+    });
+
+    afterEach(() => {
+        clock.restore();
+    });
+
+    /**
+     * Create a fixture with a running VM that shuts off on `stop` only if `obeysStop` is set
+     *
+     * @param obeysStop - Whether the guest reacts to the graceful shutdown
+     */
+    function createShutdownFixture(obeysStop: boolean): Fixture {
+        const fixture = createFixture(
+            { [shutdownButton]: { resourceType: 'vm', resourceId: 'server:vm-id', action: 'shutdownAndWait' } },
+            { vmShutdownTimeoutMs: 30_000 },
+        );
+        let state = 'RUNNING';
+        fixture.apolloClient.query.callsFake(() =>
+            Promise.resolve({ vms: { domains: [{ id: 'server:vm-id', state }] } }),
+        );
+        fixture.apolloClient.mutate.callsFake((mutation: string) => {
+            if (obeysStop || mutation === VM_FORCE_STOP_MUTATION) {
+                state = 'SHUTOFF';
+            }
+            return Promise.resolve({});
+        });
+        return fixture;
+    }
+
+    it('should release the button and not force off a VM that shuts down gracefully', async () => {
+        const fixture = createShutdownFixture(true);
+
+        await press(fixture, shutdownButton);
+        expect(lastJson(fixture, resultState)).to.include({ status: 'running', step: 'stop' });
+        await clock.tickAsync(35_000);
+
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWith(VM_STOP_MUTATION);
+        expect(lastJson(fixture, resultState)).to.deep.include({
+            status: 'succeeded',
+            completedSteps: ['stop', 'forceStop'],
+            timedOutSteps: [],
+        });
+    });
+
+    it('should force the VM off once the shutdown timeout has passed', async () => {
+        const fixture = createShutdownFixture(false);
+
+        await press(fixture, shutdownButton);
+        await clock.tickAsync(29_000);
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWith(VM_STOP_MUTATION);
+        await clock.tickAsync(5_000);
+
+        expect(fixture.apolloClient.mutate.secondCall).to.have.been.calledWith(VM_FORCE_STOP_MUTATION);
+        expect(lastJson(fixture, resultState)).to.deep.include({
+            status: 'succeeded',
+            completedSteps: ['forceStop'],
+            timedOutSteps: ['stop'],
+        });
+    });
+});
+
+describe('ControlManager => VM action verification', () => {
+    const button = (action: string): string => `unraid.0.vms.win11.commands.${action}`;
+    const resultState = 'unraid.0.vms.win11.commands.lastResult';
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers({ now: Date.now() });
+    });
+
+    afterEach(() => {
+        clock.restore();
+    });
+
+    /**
+     * Create a fixture whose VM reports the given states on consecutive queries (the last one repeats)
+     *
+     * @param states - VM states returned by the state queries
+     */
+    function createVmFixture(states: string[]): Fixture & { applyVmState: sinon.SinonStub } {
+        const fixture = createFixture(
+            Object.fromEntries(
+                ['start', 'stop', 'reboot'].map(action => [
+                    button(action),
+                    { resourceType: 'vm', resourceId: 'server:vm-id', action },
+                ]),
+            ),
+        );
+        let query = 0;
+        fixture.apolloClient.query.callsFake(() => {
+            const state = states[Math.min(query++, states.length - 1)];
+            return Promise.resolve({
+                vms: { domains: [{ id: 'server:vm-id', name: 'win11', uuid: 'vm-uuid', state }] },
+            });
+        });
+        const applyVmState = sinon.stub().resolves();
+        fixture.manager.setDynamicResourceManager({ applyVmState } as unknown as DynamicResourceManager);
+        return { ...fixture, applyVmState };
+    }
+
+    it('should release the button and write every observed state until the target is reached', async () => {
+        const fixture = createVmFixture(['SHUTOFF', 'SHUTOFF', 'RUNNING']);
+
+        await press(fixture, button('start'));
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWith(VM_START_MUTATION, { id: 'server:vm-id' });
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith(button('start'), { val: false, ack: true });
+        expect(lastJson(fixture, resultState)).to.include({ status: 'running', expectedState: 'RUNNING' });
+
+        // Checks after 1 s, 2 s and 4 s
+        await clock.tickAsync(3_000);
+        expect(fixture.apolloClient.query).to.have.been.calledTwice;
+        expect(lastJson(fixture, resultState)).to.include({ status: 'running', state: 'SHUTOFF' });
+        await clock.tickAsync(4_000);
+
+        expect(fixture.applyVmState.args).to.deep.equal([
+            ['win11', 'vm-uuid', 'SHUTOFF'],
+            ['win11', 'vm-uuid', 'RUNNING'],
+        ]);
+        expect(lastJson(fixture, resultState)).to.include({ status: 'success', state: 'RUNNING' });
+        expect(fixture.triggerPoll).to.have.been.calledOnce;
+    });
+
+    it('should report a timeout when the VM does not reach the expected state', async () => {
+        const fixture = createVmFixture(['RUNNING']);
+
+        await press(fixture, button('stop'));
+        await clock.tickAsync(119_000);
+        expect(lastJson(fixture, resultState)).to.include({ status: 'running' });
+        await clock.tickAsync(1_000);
+
+        expect(lastJson(fixture, resultState)).to.include({ status: 'timeout', state: 'RUNNING' });
+        expect(fixture.adapter.log.warn).to.have.been.calledWithMatch(/did not reach SHUTOFF within 120 seconds/);
+    });
+
+    it('should report reboot as unverified without querying the VM', async () => {
+        const fixture = createVmFixture(['RUNNING']);
+
+        await press(fixture, button('reboot'));
+        await clock.tickAsync(60_000);
+
+        expect(fixture.apolloClient.mutate).to.have.been.calledOnceWith(VM_REBOOT_MUTATION);
+        expect(fixture.apolloClient.query).to.not.have.been.called;
+        expect(lastJson(fixture, resultState)).to.include({ status: 'unverified', expectedState: null });
+    });
+
+    it('should report a failed mutation as error', async () => {
+        const fixture = createVmFixture(['SHUTOFF']);
+        fixture.apolloClient.mutate.rejects(new Error('VM is locked'));
+
+        await press(fixture, button('start'));
+
+        expect(lastJson(fixture, resultState)).to.include({ status: 'error', error: 'VM is locked' });
+        expect(fixture.adapter.log.error).to.have.been.calledOnce;
+        expect(fixture.apolloClient.query).to.not.have.been.called;
+    });
+});
@@ -1,12 +1,19 @@
 import type { AdapterInterface } from '../types/adapter-types';
 import type { UnraidApolloClient } from '../apollo-client';
 import type { Capabilities, CapabilityKey } from '../shared/capabilities';
+import type { DynamicResourceManager } from './dynamic-resource-manager';
+import type { ObjectManager } from './object-manager';
 import {
     DOCKER_START_MUTATION,
     DOCKER_STOP_MUTATION,
     DOCKER_PAUSE_MUTATION,
     DOCKER_UNPAUSE_MUTATION,
     DOCKER_UPDATE_MUTATION,
+    DOCKER_UPDATE_AUTOSTART_MUTATION,
+    DOCKER_REMOVE_MUTATION,
+    DOCKER_UPDATE_CONTAINERS_MUTATION,
+    DOCKER_UPDATE_ALL_CONTAINERS_MUTATION,
+    DOCKER_REFRESH_DIGESTS_MUTATION,
     VM_START_MUTATION,
     VM_STOP_MUTATION,
     VM_PAUSE_MUTATION,
@@ -14,10 +21,109 @@ import {
     VM_FORCE_STOP_MUTATION,
     VM_REBOOT_MUTATION,
     VM_RESET_MUTATION,
+    PARITY_CHECK_START_MUTATION,
+    PARITY_CHECK_PAUSE_MUTATION,
+    PARITY_CHECK_RESUME_MUTATION,
+    PARITY_CHECK_CANCEL_MUTATION,
+    ARRAY_SET_STATE_MUTATION,
+    NOTIFICATION_ARCHIVE_MUTATION,
+    NOTIFICATION_UNREAD_MUTATION,
+    NOTIFICATION_ARCHIVE_ALL_MUTATION,
+    NOTIFICATION_DELETE_ARCHIVED_MUTATION,
+    NOTIFICATION_RECALCULATE_OVERVIEW_MUTATION,
+    NOTIFICATION_CREATE_MUTATION,
+    NOTIFICATION_NOTIFY_IF_UNIQUE_MUTATION,
 } from '../graphql/mutations';
+import {
+    DOCKER_AUTOSTART_QUERY,
+    DOCKER_CONTAINER_IDS_QUERY,
+    DOCKER_CONTAINER_STATES_QUERY,
+    DOCKER_ORGANIZER_QUERY,
+    VM_STATES_QUERY,
+} from '../graphql/queries';
+import { resolveDockerFolders, sanitizeResourceName } from '../utils/data-transformers';
+
+/** How long array start/stop stays armed after pressing `array.commands.arm` */
+const ARRAY_ARM_WINDOW_MS = 60_000;
+
+/** How long container removal stays armed after pressing `docker.containers.<name>.commands.arm` */
+const DOCKER_REMOVE_ARM_WINDOW_MS = 60_000;
+
+/** How long a composite step waits for its post-condition */
+const COMPOSITE_STEP_TIMEOUT_MS = 60_000;
+
+/** Interval between two post-condition checks of a composite step */
+const COMPOSITE_CHECK_INTERVAL_MS = 2_000;
+
+/** First delay before re-querying a VM after a mutation; doubled after every check */
+const VM_VERIFY_INITIAL_DELAY_MS = 1_000;
+
+/** Upper bound for the delay between two VM state checks */
+const VM_VERIFY_MAX_DELAY_MS = 10_000;
+
+/** How long a VM action is verified (graceful `stop` uses the configured shutdown timeout) */
+const VM_VERIFY_TIMEOUT_MS = 60_000;
+
+/**
+ * VM state expected after each VM action; VM mutations only return a Boolean.
+ * `reboot` and `reset` are missing on purpose: the VM stays RUNNING throughout,
+ * so its state cannot confirm them.
+ */
+const VM_TARGET_STATES: Record<string, string> = {
+    start: 'RUNNING',
+    stop: 'SHUTOFF',
+    forceStop: 'SHUTOFF',
+    pause: 'PAUSED',
+    resume: 'RUNNING',
+};
+
+/** Importance argument of `archiveAll` per notification button */
+const ARCHIVE_ALL_IMPORTANCE = new Map<string, string | null>([
+    ['archiveAll', null],
+    ['archiveAllInfo', 'INFO'],
+    ['archiveAllWarning', 'WARNING'],
+    ['archiveAllAlert', 'ALERT'],
+]);
+
+/** Values of the `NotificationImportance` enum */
+const NOTIFICATION_IMPORTANCES = ['INFO', 'WARNING', 'ALERT'];
+
+/** Writable input for bulk Docker updates; lives next to the summary instead of below `commands` */
+const DOCKER_UPDATE_LIST_STATE = 'docker.updates.updateList';
+
+/** JSON state receiving the outcome of bulk Docker updates and digest refreshes */
+const DOCKER_UPDATE_RESULT_STATE = 'docker.updates.lastResult';
+
+/** Writable container data states: `docker.containers.<name>.<field>` */
+const DOCKER_AUTOSTART_STATE_PATTERN = /\.docker\.containers\.([^.]+)\.(autoStart|autoStartWait|autoStartOrder)$/;
+
+/**
+ * One step of a composite control action: an existing mutation followed by a post-condition
+ */
+interface CompositeStep {
+    /** Step name reported in `commands.lastResult` */
+    name: string;
+    /** Execute the mutation of this step */
+    run: () => Promise<unknown>;
+    /** Post-condition; checked before the step (skips it when already met) and polled afterwards */
+    until?: () => Promise<boolean>;
+    /** Maximum time to wait for `until` (default {@link COMPOSITE_STEP_TIMEOUT_MS}) */
+    timeoutMs?: number;
+    /** Continue with the next step instead of failing when `until` times out */
+    continueOnTimeout?: boolean;
+}
+
+/** Per-container entry of `docker.updates.lastResult` */
+interface DockerUpdateResultEntry {
+    name: string;
+    updated: boolean;
+    state?: string | null;
+    status?: string | null;
+    error?: string;
+}
 
 /**
- * Manages control operations for Docker containers and VMs
+ * Manages control operations for Docker containers, VMs, the array and notifications
  * Handles button state changes and executes GraphQL mutations
  */
 export class ControlManager {
@@ -29,14 +135,46 @@ export class ControlManager {
      * @param capabilities - Detected Unraid API capabilities (mutated at runtime on fallback)
      * @param triggerPoll - Callback that triggers an immediate poll cycle so that
      *   post-mutation state changes become visible without waiting for the next interval
+     * @param arrayDecryptionPassword - Passphrase sent when starting an encrypted array (never logged)
+     * @param vmShutdownTimeoutMs - Time `shutdownAndWait` waits for a VM to shut off before forcing it off
      */
     constructor(
         private readonly adapter: AdapterInterface,
         private readonly apolloClient: UnraidApolloClient,
         private readonly capabilities: Capabilities,
         private readonly triggerPoll: () => void,
+        private readonly arrayDecryptionPassword = '',
+        private readonly vmShutdownTimeoutMs = 120_000,
     ) {}
 
+    private objectManager?: ObjectManager;
+    private dynamicResourceManager?: DynamicResourceManager;
+
+    /** Timestamp until which array start/stop is armed (0 = not armed) */
+    private arrayArmedUntil = 0;
+    private arrayDisarmTimer?: ioBroker.Timeout;
+
+    /** Timestamp until which removal is armed, per container id */
+    private dockerRemoveArmedUntil = new Map<string, number>();
+
+    /**
+     * Set the object manager used to drop the objects of removed containers
+     *
+     * @param objectManager - The ObjectManager instance
+     */
+    setObjectManager(objectManager: ObjectManager): void {
+        this.objectManager = objectManager;
+    }
+
+    /**
+     * Set the dynamic resource manager that writes the VM states observed while verifying VM actions
+     *
+     * @param dynamicResourceManager - The DynamicResourceManager instance
+     */
+    setDynamicResourceManager(dynamicResourceManager: DynamicResourceManager): void {
+        this.dynamicResourceManager = dynamicResourceManager;
+    }
+
     /**
      * Skip a control action when the required capability is missing.
      * Logs once per (action, capability) combination.
@@ -64,20 +202,37 @@ export class ControlManager {
      * @param state - New state value
      */
     async handleStateChange(id: string, state: ioBroker.State | null | undefined): Promise<void> {
-        // Ignore acknowledged states, deletions, or false values
-        if (!state || state.ack || !state.val) {
+        if (!state || state.ack) {
             return;
         }
 
-        // Check if this is a control button
-        if (!id.includes('.commands.')) {
+        // Writable data states: false and 0 are valid values here
+        const autoStartMatch = DOCKER_AUTOSTART_STATE_PATTERN.exec(id);
+        if (autoStartMatch) {
+            await this.handleAutoStartChange(id, autoStartMatch[1], autoStartMatch[2], state.val);
+            return;
+        }
+
+        // Ignore false values of buttons
+        if (!state.val) {
+            return;
+        }
+
+        // Check if this is a control button (`commands.lastResult` is a read-only report)
+        if (
+            (!id.includes('.commands.') && !id.endsWith(`.${DOCKER_UPDATE_LIST_STATE}`)) ||
+            id.endsWith('.commands.lastResult')
+        ) {
             return;
         }
 
         this.adapter.log.info(`Processing control action for ${id}`);
 
+        // Text inputs (e.g. notifications.commands.archive) are reset to '' instead of false
+        const resetValue = typeof state.val === 'string' ? '' : false;
+
         try {
-            const mutationResult = await this.executeControlAction(id);
+            const mutationResult = await this.executeControlAction(id, state.val);
             // Docker mutations return the mutated container (id, state, status).
             // Apply that result directly so the object tree reflects the new state
             // without waiting for the next poll cycle — Docker's API is synchronous,
@@ -85,7 +240,7 @@ export class ControlManager {
             if (mutationResult) {
                 await this.applyDockerMutationResult(id, mutationResult);
             }
-            await this.resetButton(id);
+            await this.resetButton(id, resetValue);
             // Additionally trigger a re-poll so that fields which are not part of the
             // mutation response (e.g. isUpdateAvailable after `update`) get refreshed.
             this.triggerPoll();
@@ -102,10 +257,96 @@ export class ControlManager {
             } else {
                 this.adapter.log.error(`Failed to execute control action: ${message}`);
             }
-            await this.resetButton(id);
+            await this.resetButton(id, resetValue);
         }
     }
 
+    /**
+     * Translate a write to `autoStart`, `autoStartWait` or `autoStartOrder` into an
+     * `updateAutostartConfiguration` mutation. The mutation replaces the whole configuration,
+     * so the current entries of all containers are queried and sent back in autostart order.
+     *
+     * @param stateId - Full state id of the written state
+     * @param sanitizedName - Container part of the state id
+     * @param field - Written field (autoStart, autoStartWait, autoStartOrder)
+     * @param value - Written value
+     */
+    private async handleAutoStartChange(
+        stateId: string,
+        sanitizedName: string,
+        field: string,
+        value: ioBroker.StateValue,
+    ): Promise<void> {
+        if (
+            !this.isSupported('dockerAutoStartControl', 'Docker autostart configuration') ||
+            !this.isSupported('dockerAutoStartOrder', 'Docker autostart configuration')
+        ) {
+            return;
+        }
+
+        try {
+            if (field === 'autoStart' ? typeof value !== 'boolean' : !Number.isInteger(value) || Number(value) < 0) {
+                throw new Error(
+                    `Invalid value ${JSON.stringify(value)} for ${field} (expected ${field === 'autoStart' ? 'true/false' : 'a non-negative integer'})`,
+                );
+            }
+
+            const data = await this.apolloClient.query<{
+                docker?: { containers?: Array<Record<string, unknown>> | null } | null;
+            }>(DOCKER_AUTOSTART_QUERY);
+            const containers = (data?.docker?.containers ?? []).map(container => ({
+                id: String(container.id),
+                name: Array.isArray(container.names) ? String(container.names[0]).replace(/^\//, '') : '',
+                autoStart: container.autoStart === true,
+                order: typeof container.autoStartOrder === 'number' ? container.autoStartOrder : null,
+                wait: typeof container.autoStartWait === 'number' ? container.autoStartWait : null,
+            }));
+
+            const target = containers.find(container => sanitizeResourceName(container.name) === sanitizedName);
+            if (!target) {
+                throw new Error(`Unknown container ${sanitizedName}`);
+            }
+
+            // Current autostart order first, containers without an order keep their relative position behind
+            const ordered = containers
+                .map((container, index) => ({ container, index }))
+                .sort((a, b) => (a.container.order ?? Infinity) - (b.container.order ?? Infinity) || a.index - b.index)
+                .map(({ container }) => container);
+
+            if (field === 'autoStart') {
+                target.autoStart = value as boolean;
+            } else if (field === 'autoStartWait') {
+                target.wait = value as number;
+            } else {
+                // Insert in front of the first container that currently holds the requested position or a later one
+                ordered.splice(ordered.indexOf(target), 1);
+                const position = ordered.filter(
+                    container => container.order !== null && container.order < (value as number),
+                ).length;
+                ordered.splice(position, 0, target);
+            }
+
+            const entries = ordered.map(container => ({
+                id: container.id,
+                autoStart: container.autoStart,
+                wait: container.wait,
+            }));
+            this.adapter.log.info(`Updating autostart configuration: ${target.name} ${field}=${String(value)}`);
+            const result = await this.apolloClient.mutate(DOCKER_UPDATE_AUTOSTART_MUTATION, {
+                entries,
+                persistUserPreferences: true,
+            });
+            this.adapter.log.debug(`Docker updateAutostartConfiguration mutation result: ${JSON.stringify(result)}`);
+
+            await this.adapter.setStateAsync(stateId, { val: value, ack: true });
+        } catch (error) {
+            this.adapter.log.error(`Failed to update autostart configuration: ${this.describeError(error)}`);
+        }
+
+        // The poll writes the authoritative values back (including the reverted value after a failure)
+        this.triggerPoll();
+    }
+
     /**
      * Apply the state/status from a Docker mutation response to the corresponding
      * container object. Makes the new state visible instantly.
@@ -138,10 +379,12 @@ export class ControlManager {
      * Execute the control action based on the button pressed
      *
      * @param stateId - The control button state ID
+     * @param value - Written value (text for notification inputs, `true` for buttons)
      * @returns Mutation result for Docker actions (state/status), null for VM actions
      */
     private async executeControlAction(
         stateId: string,
+        value: ioBroker.StateValue,
     ): Promise<{ state: string | null; status: string | null } | null> {
         const obj = await this.adapter.getObjectAsync(stateId);
         if (!obj || !obj.native) {
@@ -158,9 +401,33 @@ export class ControlManager {
 
         switch (resourceType) {
             case 'docker':
+                if (action === 'arm' || action === 'remove' || action === 'removeWithImage') {
+                    await this.executeDockerRemoveAction(stateId, resourceId, action);
+                    return null;
+                }
+                if (action === 'restart') {
+                    this.restartDockerContainer(stateId, resourceId);
+                    return null;
+                }
                 return await this.executeDockerAction(resourceId, action);
+            case 'dockerFolder':
+                await this.executeDockerFolderAction(resourceId, action);
+                return null;
+            case 'dockerUpdates':
+                await this.executeDockerBulkAction(action, value);
+                return null;
             case 'vm':
-                await this.executeVmAction(resourceId, action);
+                if (action === 'shutdownAndWait') {
+                    this.shutdownVmAndWait(stateId, resourceId);
+                    return null;
+                }
+                await this.executeVerifiedVmAction(stateId, resourceId, action);
+                return null;
+            case 'array':
+                await this.executeArrayAction(resourceId, action);
+                return null;
+            case 'notification':
+                await this.executeNotificationAction(action, value);
                 return null;
             default:
                 throw new Error(`Unknown resource type: ${resourceType}`);
@@ -243,6 +510,535 @@ export class ControlManager {
         }
     }
 
+    /**
+     * Restart a container as composite action: stop, wait until it has exited, start,
+     * wait until it is running. Progress is reported in `commands.lastResult`.
+     * Both waits can take minutes, so the action runs in the background and the button is released right away.
+     *
+     * @param stateId - Full state id of the pressed button
+     * @param containerId - Docker container ID (PrefixedID format)
+     */
+    private restartDockerContainer(stateId: string, containerId: string): void {
+        const hasState = (expected: string) => async (): Promise<boolean> =>
+            (await this.queryDockerContainerState(containerId)) === expected;
+
+        void this.runCompositeAction('restart', stateId.replace(/\.[^.]+$/, '.lastResult'), [
+            {
+                name: 'stop',
+                run: () => this.apolloClient.mutate(DOCKER_STOP_MUTATION, { id: containerId }),
+                until: hasState('EXITED'),
+            },
+            {
+                name: 'start',
+                run: () => this.apolloClient.mutate(DOCKER_START_MUTATION, { id: containerId }),
+                until: hasState('RUNNING'),
+            },
+        ]).catch(error => {
+            this.adapter.log.error(`Failed to restart container ${containerId}: ${this.describeError(error)}`);
+        });
+    }
+
+    /**
+     * Query the current state (RUNNING, PAUSED, EXITED) of a single container
+     *
+     * @param containerId - Docker container ID (PrefixedID format)
+     * @returns Container state or null if the container is not found
+     */
+    private async queryDockerContainerState(containerId: string): Promise<string | null> {
+        const data = await this.apolloClient.query<{
+            docker?: { containers?: Array<{ id?: unknown; state?: unknown }> | null } | null;
+        }>(DOCKER_CONTAINER_STATES_QUERY);
+        const container = data?.docker?.containers?.find(entry => entry.id === containerId);
+        return typeof container?.state === 'string' ? container.state : null;
+    }
+
+    /**
+     * Run a sequence of mutations with post-conditions and mirror the progress as JSON
+     * (`status` running/succeeded/failed, current `step`, `completedSteps`, `timedOutSteps`, `error`).
+     * A step whose post-condition already holds is skipped; a step whose post-condition
+     * is not met within its timeout fails the whole action unless it may continue on timeout.
+     * Callers run it in the background and handle the rejection, so it never blocks state handling.
+     *
+     * @param action - Action name reported in the result
+     * @param resultStateId - JSON state receiving the progress
+     * @param steps - Steps executed in order
+     */
+    private async runCompositeAction(action: string, resultStateId: string, steps: CompositeStep[]): Promise<void> {
+        const completedSteps: string[] = [];
+        const timedOutSteps: string[] = [];
+        const result: Record<string, unknown> = {
+            action,
+            status: 'running',
+            step: null,
+            completedSteps,
+            timedOutSteps,
+            startedAt: new Date().toISOString(),
+        };
+        const report = async (): Promise<void> => {
+            await this.adapter.setStateAsync(resultStateId, JSON.stringify(result), true);
+        };
+
+        try {
+            for (const step of steps) {
+                result.step = step.name;
+                await report();
+
+                if (step.until && (await step.until())) {
+                    this.adapter.log.debug(`${action}: step ${step.name} skipped, post-condition already met`);
+                } else {
+                    const stepResult = await step.run();
+                    this.adapter.log.debug(`${action}: step ${step.name} result: ${JSON.stringify(stepResult)}`);
+                    const timeoutMs = step.timeoutMs ?? COMPOSITE_STEP_TIMEOUT_MS;
+                    if (step.until && !(await this.waitForCondition(step.until, timeoutMs))) {
+                        const message = `Step ${step.name} did not complete within ${Math.round(timeoutMs / 1000)} seconds`;
+                        if (!step.continueOnTimeout) {
+                            throw new Error(message);
+                        }
+                        this.adapter.log.info(`${action}: ${message}, continuing`);
+                        timedOutSteps.push(step.name);
+                        continue;
+                    }
+                }
+
+                completedSteps.push(step.name);
+            }
+            result.status = 'succeeded';
+            result.step = null;
+            this.adapter.log.info(`${action} finished: ${completedSteps.join(' -> ')}`);
+        } catch (error) {
+            result.status = 'failed';
+            result.error = this.describeError(error);
+            throw error;
+        } finally {
+            result.finishedAt = new Date().toISOString();
+            await report();
+            // The poll triggered when the button was released ran before the action finished
+            this.triggerPoll();
+        }
+    }
+
+    /**
+     * Poll a post-condition until it holds
+     *
+     * @param condition - Post-condition to check
+     * @param timeoutMs - Maximum time to wait
+     * @returns True if the condition was met before the timeout
+     */
+    private async waitForCondition(condition: () => Promise<boolean>, timeoutMs: number): Promise<boolean> {
+        const deadline = Date.now() + timeoutMs;
+        while (Date.now() < deadline) {
+            await new Promise<void>(resolve => this.adapter.setTimeout(resolve, COMPOSITE_CHECK_INTERVAL_MS));
+            if (await condition()) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Shut a VM down gracefully and force it off when it has not reached SHUTOFF within
+     * the configured timeout. Progress is reported in `commands.lastResult`.
+     * Like the container restart it runs in the background, as the shutdown may take minutes.
+     *
+     * @param stateId - Full state id of the pressed button
+     * @param vmId - VM ID (PrefixedID format)
+     */
+    private shutdownVmAndWait(stateId: string, vmId: string): void {
+        const isShutOff = async (): Promise<boolean> => (await this.queryVmState(vmId)) === 'SHUTOFF';
+
+        void this.runCompositeAction('shutdownAndWait', stateId.replace(/\.[^.]+$/, '.lastResult'), [
+            {
+                name: 'stop',
+                run: () => this.executeVmAction(vmId, 'stop'),
+                until: isShutOff,
+                timeoutMs: this.vmShutdownTimeoutMs,
+                continueOnTimeout: true,
+            },
+            {
+                name: 'forceStop',
+                run: () => this.executeVmAction(vmId, 'forceStop'),
+                until: isShutOff,
+            },
+        ]).catch(error => {
+            this.adapter.log.error(`Failed to shut down VM ${vmId}: ${this.describeError(error)}`);
+        });
+    }
+
+    /**
+     * Query the current state (RUNNING, SHUTOFF, PAUSED, ...) of a single VM
+     *
+     * @param vmId - VM ID (PrefixedID format)
+     * @returns VM state or null if the VM is not found
+     */
+    private async queryVmState(vmId: string): Promise<string | null> {
+        return (await this.queryVm(vmId))?.state ?? null;
+    }
+
+    /**
+     * Query name, uuid and state of a single VM
+     *
+     * @param vmId - VM ID (PrefixedID format)
+     * @returns VM entry or null if the VM is not found
+     */
+    private async queryVm(
+        vmId: string,
+    ): Promise<{ name: string | null; uuid: string | null; state: string | null } | null> {
+        const data = await this.apolloClient.query<{
+            vms?: { domains?: Array<{ id?: unknown; name?: unknown; uuid?: unknown; state?: unknown }> | null } | null;
+        }>(VM_STATES_QUERY);
+        const vm = data?.vms?.domains?.find(entry => entry.id === vmId);
+        if (!vm) {
+            return null;
+        }
+        return {
+            name: typeof vm.name === 'string' ? vm.name : null,
+            uuid: typeof vm.uuid === 'string' ? vm.uuid : null,
+            state: typeof vm.state === 'string' ? vm.state : null,
+        };
+    }
+
+    /**
+     * Remove a container with a two-step safeguard: `arm` opens a short window in which
+     * exactly one `remove` or `removeWithImage` is accepted for the same container.
+     * On success the container's object subtree is dropped right away.
+     *
+     * @param stateId - Full state id of the pressed button
+     * @param containerId - Docker container ID (PrefixedID format)
+     * @param action - Action to perform (arm, remove, removeWithImage)
+     */
+    private async executeDockerRemoveAction(stateId: string, containerId: string, action: string): Promise<void> {
+        if (!this.isSupported('dockerRemove', 'Docker container removal')) {
+            return;
+        }
+
+        // unraid.0.docker.containers.<name>.commands.<action>
+        const containerName = stateId.split('.').slice(-3, -2)[0];
+
+        if (action === 'arm') {
+            this.dockerRemoveArmedUntil.set(containerId, Date.now() + DOCKER_REMOVE_ARM_WINDOW_MS);
+            this.adapter.log.warn(
+                `Removal of container ${containerName} armed for ${DOCKER_REMOVE_ARM_WINDOW_MS / 1000} seconds. Press commands.remove or commands.removeWithImage to execute.`,
+            );
+            return;
+        }
+
+        const armedUntil = this.dockerRemoveArmedUntil.get(containerId) ?? 0;
+        this.dockerRemoveArmedUntil.delete(containerId);
+        if (Date.now() > armedUntil) {
+            this.adapter.log.warn(
+                `Container ${action} ignored: press docker.containers.${containerName}.commands.arm first to confirm the action.`,
+            );
+            return;
+        }
+
+        const withImage = action === 'removeWithImage';
+        this.adapter.log.info(`Removing container ${containerName}${withImage ? ' including its image' : ''}`);
+        const result = await this.apolloClient.mutate(DOCKER_REMOVE_MUTATION, { id: containerId, withImage });
+        this.adapter.log.debug(`Docker removeContainer mutation result: ${JSON.stringify(result)}`);
+        if ((result as { docker?: { removeContainer?: unknown } })?.docker?.removeContainer !== true) {
+            throw new Error(`Server did not confirm the removal of container ${containerName}`);
+        }
+
+        await this.objectManager?.removeDynamicResource('docker', containerName);
+    }
+
+    /**
+     * Start or stop all member containers of a Docker organizer folder. The folder is
+     * resolved again right before the action so the current members and states are used.
+     *
+     * @param folderId - Organizer entry id of the folder
+     * @param action - Action to perform (start, stop)
+     */
+    private async executeDockerFolderAction(folderId: string, action: string): Promise<void> {
+        if (action !== 'start' && action !== 'stop') {
+            throw new Error(`Unknown Docker folder action: ${action}`);
+        }
+
+        const data = await this.apolloClient.query<{ docker?: { organizer?: unknown } | null }>(DOCKER_ORGANIZER_QUERY);
+        const folder = resolveDockerFolders(data?.docker?.organizer).find(entry => entry.id === folderId);
+        if (!folder) {
+            throw new Error(`Docker folder ${folderId} no longer exists`);
+        }
+
+        // Only touch containers that are not already in the desired state
+        const targets = folder.containers.filter(container =>
+            action === 'start' ? container.state === 'EXITED' : container.state !== 'EXITED',
+        );
+        this.adapter.log.info(
+            `Docker folder ${folder.name}: ${action} ${targets.length} of ${folder.containers.length} containers`,
+        );
+
+        const mutation = action === 'start' ? DOCKER_START_MUTATION : DOCKER_STOP_MUTATION;
+        const failed: string[] = [];
+        for (const container of targets) {
+            try {
+                const result = await this.apolloClient.mutate(mutation, { id: container.id });
+                this.adapter.log.debug(`Docker ${action} mutation result: ${JSON.stringify(result)}`);
+            } catch (error) {
+                failed.push(container.name);
+                this.adapter.log.warn(
+                    `Docker folder ${folder.name}: failed to ${action} ${container.name}: ${this.describeError(error)}`,
+                );
+            }
+        }
+
+        if (failed.length > 0 && failed.length === targets.length) {
+            throw new Error(`Docker folder ${folder.name}: ${action} failed for all containers`);
+        }
+    }
+
+    /**
+     * Execute bulk Docker update actions and report the outcome in `docker.updates.lastResult`.
+     * The re-poll triggered afterwards refreshes the `docker.updates` summary.
+     *
+     * @param action - Action to perform (updateAll, updateList, refreshDigests)
+     * @param value - JSON array of container names for `updateList`
+     */
+    private async executeDockerBulkAction(action: string, value: ioBroker.StateValue): Promise<void> {
+        const capability = action === 'refreshDigests' ? 'dockerRefreshDigests' : 'dockerBulkUpdate';
+        if (!this.isSupported(capability, `Docker ${action}`)) {
+            return;
+        }
+
+        const result: Record<string, unknown> = { action, timestamp: new Date().toISOString() };
+        try {
+            switch (action) {
+                case 'updateAll': {
+                    const updateAllResult = await this.apolloClient.mutate(DOCKER_UPDATE_ALL_CONTAINERS_MUTATION);
+                    this.adapter.log.debug(`Docker updateAll mutation result: ${JSON.stringify(updateAllResult)}`);
+                    const containers = this.parseUpdatedContainers(updateAllResult, 'updateAllContainers');
+                    result.containers = containers;
+                    result.success = containers.every(container => container.updated);
+                    this.adapter.log.info(
+                        `Docker updateAll finished: ${containers.filter(container => container.updated).length} of ${containers.length} containers updated`,
+                    );
+                    break;
+                }
+
+                case 'updateList': {
+                    const containers = await this.updateContainerList(value);
+                    result.containers = containers;
+                    result.success = containers.every(container => container.updated);
+                    this.adapter.log.info(
+                        `Docker updateList finished: ${containers.filter(container => container.updated).length} of ${containers.length} containers updated`,
+                    );
+                    break;
+                }
+
+                case 'refreshDigests': {
+                    const refreshResult = await this.apolloClient.mutate(DOCKER_REFRESH_DIGESTS_MUTATION);
+                    this.adapter.log.debug(`Docker refreshDigests mutation result: ${JSON.stringify(refreshResult)}`);
+                    result.success =
+                        (refreshResult as { refreshDockerDigests?: unknown })?.refreshDockerDigests === true;
+                    break;
+                }
+
+                default:
+                    throw new Error(`Unknown Docker update action: ${action}`);
+            }
+        } catch (error) {
+            result.success = false;
+            result.error = this.describeError(error);
+            await this.adapter.setStateAsync(DOCKER_UPDATE_RESULT_STATE, JSON.stringify(result), true);
+            throw error;
+        }
+
+        await this.adapter.setStateAsync(DOCKER_UPDATE_RESULT_STATE, JSON.stringify(result), true);
+    }
+
+    /**
+     * Update the containers named in `docker.updates.updateList` with a single `updateContainers` call
+     *
+     * @param value - JSON array of container names
+     * @returns One result entry per requested container
+     */
+    private async updateContainerList(value: ioBroker.StateValue): Promise<DockerUpdateResultEntry[]> {
+        let names: unknown;
+        try {
+            names = typeof value === 'string' ? JSON.parse(value) : value;
+        } catch {
+            throw new Error('Docker update list is not valid JSON');
+        }
+        if (!Array.isArray(names) || names.length === 0 || !names.every(name => typeof name === 'string')) {
+            throw new Error('Docker update list must be a non-empty JSON array of container names');
+        }
+        const requested = [...new Set(names.map(name => name.trim().replace(/^\//, '')).filter(Boolean))];
+
+        // Names are resolved right before the mutation so the list also works without the docker.containers domain
+        const containerList = await this.apolloClient.query<{
+            docker?: { containers?: Array<{ id?: unknown; names?: unknown }> | null } | null;
+        }>(DOCKER_CONTAINER_IDS_QUERY);
+        const idByName = new Map<string, string>();
+        for (const container of containerList?.docker?.containers ?? []) {
+            const name = this.containerName(container.names);
+            if (name && typeof container.id === 'string') {
+                idByName.set(name, container.id);
+            }
+        }
+
+        const ids = requested.flatMap(name => idByName.get(name) ?? []);
+        let updated: DockerUpdateResultEntry[] = [];
+        if (ids.length > 0) {
+            this.adapter.log.info(
+                `Updating Docker containers: ${requested.filter(name => idByName.has(name)).join(', ')}`,
+            );
+            const updateResult = await this.apolloClient.mutate(DOCKER_UPDATE_CONTAINERS_MUTATION, { ids });
+            this.adapter.log.debug(`Docker updateContainers mutation result: ${JSON.stringify(updateResult)}`);
+            updated = this.parseUpdatedContainers(updateResult, 'updateContainers');
+        }
+
+        return requested.map(
+            name =>
+                updated.find(container => container.name === name) ?? {
+                    name,
+                    updated: false,
+                    error: idByName.has(name) ? 'Not returned by the server' : 'Container not found',
+                },
+        );
+    }
+
+    /**
+     * Parse the container list returned by `updateContainers` / `updateAllContainers`.
+     * A container counts as updated only when the server no longer flags an available update.
+     *
+     * @param payload - Raw GraphQL mutation response
+     * @param field - Mutation field name below `docker`
+     */
+    private parseUpdatedContainers(payload: unknown, field: string): DockerUpdateResultEntry[] {
+        const containers = (payload as { docker?: Record<string, unknown> })?.docker?.[field];
+        if (!Array.isArray(containers)) {
+            return [];
+        }
+        return containers.map(container => {
+            const c = container as Record<string, unknown>;
+            const updated = c.isUpdateAvailable === false;
+            return {
+                name: this.containerName(c.names) ?? String(c.id),
+                updated,
+                state: typeof c.state === 'string' ? c.state : null,
+                status: typeof c.status === 'string' ? c.status : null,
+                ...(updated ? {} : { error: 'Update still available after the update' }),
+            };
+        });
+    }
+
+    /**
+     * Get the display name of a container from its Docker `names` list
+     *
+     * @param names - Docker names (e.g. ["/plex"])
+     */
+    private containerName(names: unknown): string | null {
+        if (!Array.isArray(names) || typeof names[0] !== 'string') {
+            return null;
+        }
+        return names[0].replace(/^\//, '');
+    }
+
+    /**
+     * Execute a VM action and verify it in the background: the affected VM is re-queried
+     * with backoff until it reaches the expected state, every observed state is written to
+     * `vms.<name>.state` and the outcome (success/timeout/error) to `commands.lastResult`.
+     * Actions without an expected state are reported as `unverified`.
+     *
+     * @param stateId - Full state id of the pressed button
+     * @param vmId - Virtual machine ID (PrefixedID format)
+     * @param action - Action to perform
+     */
+    private async executeVerifiedVmAction(stateId: string, vmId: string, action: string): Promise<void> {
+        const resultStateId = stateId.replace(/\.[^.]+$/, '.lastResult');
+        const expectedState = VM_TARGET_STATES[action] ?? null;
+        const result: Record<string, unknown> = {
+            action,
+            status: 'running',
+            expectedState,
+            state: null,
+            startedAt: new Date().toISOString(),
+        };
+        const report = async (): Promise<void> => {
+            await this.adapter.setStateAsync(resultStateId, JSON.stringify(result), true);
+        };
+
+        await report();
+        try {
+            await this.executeVmAction(vmId, action);
+        } catch (error) {
+            result.status = 'error';
+            result.error = this.describeError(error);
+            result.finishedAt = new Date().toISOString();
+            await report();
+            throw error;
+        }
+
+        if (!expectedState) {
+            result.status = 'unverified';
+            result.finishedAt = new Date().toISOString();
+            await report();
+            return;
+        }
+
+        // Verification may take minutes for a graceful shutdown, so the button is released right away
+        const timeoutMs = action === 'stop' ? this.vmShutdownTimeoutMs : VM_VERIFY_TIMEOUT_MS;
+        void this.verifyVmState(vmId, expectedState, timeoutMs, result, report).catch(async error => {
+            const message = this.describeError(error);
+            result.status = 'error';
+            result.error = message;
+            result.finishedAt = new Date().toISOString();
+            this.adapter.log.warn(`Failed to verify VM action ${action}: ${message}`);
+            await report().catch(() => undefined);
+        });
+    }
+
+    /**
+     * Re-query a VM with exponential backoff until it reaches the expected state
+     *
+     * @param vmId - Virtual machine ID (PrefixedID format)
+     * @param expectedState - State the action should lead to
+     * @param timeoutMs - Maximum time to wait
+     * @param result - Result object mirrored to `commands.lastResult`
+     * @param report - Writes `result` to `commands.lastResult`
+     */
+    private async verifyVmState(
+        vmId: string,
+        expectedState: string,
+        timeoutMs: number,
+        result: Record<string, unknown>,
+        report: () => Promise<void>,
+    ): Promise<void> {
+        const deadline = Date.now() + timeoutMs;
+        let delayMs = VM_VERIFY_INITIAL_DELAY_MS;
+        let lastState: string | null = null;
+
+        while (Date.now() < deadline) {
+            const waitMs = Math.min(delayMs, deadline - Date.now());
+            await new Promise<void>(resolve => this.adapter.setTimeout(resolve, waitMs));
+            delayMs = Math.min(delayMs * 2, VM_VERIFY_MAX_DELAY_MS);
+
+            const vm = await this.queryVm(vmId);
+            const state = vm?.state ?? null;
+            if (vm && state !== null && state !== lastState) {
+                lastState = state;
+                result.state = state;
+                if (vm.name && vm.uuid) {
+                    await this.dynamicResourceManager?.applyVmState(vm.name, vm.uuid, state);
+                }
+                await report();
+            }
+            if (state === expectedState) {
+                result.status = 'success';
+                result.finishedAt = new Date().toISOString();
+                await report();
+                return;
+            }
+        }
+
+        result.status = 'timeout';
+        result.finishedAt = new Date().toISOString();
+        await report();
+        this.adapter.log.warn(
+            `VM did not reach ${expectedState} within ${Math.round(timeoutMs / 1000)} seconds (last state: ${lastState ?? 'unknown'})`,
+        );
+    }
+
     /**
      * Execute VM control actions
      *
@@ -301,12 +1097,286 @@ export class ControlManager {
     }
 
     /**
-     * Reset button state back to false
+     * Execute array-level control actions
+     *
+     * @param target - Array sub-resource the button belongs to (e.g. parityCheck)
+     * @param action - Action to perform
+     */
+    private async executeArrayAction(target: string, action: string): Promise<void> {
+        switch (target) {
+            case 'array':
+                await this.executeArrayStateAction(action);
+                break;
+
+            case 'parityCheck':
+                await this.executeParityCheckAction(action);
+                break;
+
+            default:
+                throw new Error(`Unknown array control target: ${target}`);
+        }
+    }
+
+    /**
+     * Execute array start/stop with a two-step safeguard: `arm` opens a short
+     * window in which exactly one `start` or `stop` is accepted.
+     *
+     * @param action - Action to perform (arm, start, stop)
+     */
+    private async executeArrayStateAction(action: string): Promise<void> {
+        if (!this.isSupported('arrayStateControl', 'Array start/stop')) {
+            return;
+        }
+
+        if (action === 'arm') {
+            await this.setArrayArmed(true);
+            this.adapter.log.warn(
+                `Array start/stop armed for ${ARRAY_ARM_WINDOW_MS / 1000} seconds. Press array.commands.start or array.commands.stop to execute.`,
+            );
+            return;
+        }
+
+        if (action !== 'start' && action !== 'stop') {
+            throw new Error(`Unknown array action: ${action}`);
+        }
+
+        if (Date.now() > this.arrayArmedUntil) {
+            this.adapter.log.warn(`Array ${action} ignored: press array.commands.arm first to confirm the action.`);
+            return;
+        }
+        await this.setArrayArmed(false);
+
+        const input: Record<string, unknown> = { desiredState: action === 'start' ? 'START' : 'STOP' };
+        const secrets: string[] = [];
+        if (action === 'start' && this.arrayDecryptionPassword) {
+            input.decryptionPassword = this.arrayDecryptionPassword;
+            secrets.push(this.arrayDecryptionPassword);
+        }
+
+        this.adapter.log.info(`Executing array action: ${action}`);
+        const result = await this.apolloClient.mutate(ARRAY_SET_STATE_MUTATION, { input }, secrets);
+        const state = (result as { array?: { setState?: { state?: unknown } } })?.array?.setState?.state;
+        this.adapter.log.debug(`Array ${action} mutation returned state: ${String(state)}`);
+        if (typeof state === 'string') {
+            await this.adapter.setStateAsync('array.state', state, true);
+        }
+    }
+
+    /**
+     * Arm or disarm array start/stop and mirror it to `array.controlArmed`.
+     * Arming schedules an automatic disarm after {@link ARRAY_ARM_WINDOW_MS}.
+     *
+     * @param armed - Whether start/stop should be accepted
+     */
+    private async setArrayArmed(armed: boolean): Promise<void> {
+        if (this.arrayDisarmTimer) {
+            this.adapter.clearTimeout(this.arrayDisarmTimer);
+            this.arrayDisarmTimer = undefined;
+        }
+
+        this.arrayArmedUntil = armed ? Date.now() + ARRAY_ARM_WINDOW_MS : 0;
+        await this.adapter.setStateAsync('array.controlArmed', armed, true);
+
+        if (armed) {
+            this.arrayDisarmTimer = this.adapter.setTimeout(() => {
+                this.arrayDisarmTimer = undefined;
+                this.arrayArmedUntil = 0;
+                void this.adapter.setStateAsync('array.controlArmed', false, true);
+            }, ARRAY_ARM_WINDOW_MS);
+        }
+    }
+
+    /**
+     * Execute parity check control actions
+     *
+     * @param action - Action to perform (start, startCorrecting, pause, resume, cancel)
+     */
+    private async executeParityCheckAction(action: string): Promise<void> {
+        if (!this.isSupported('parityCheckControl', 'Parity check control')) {
+            return;
+        }
+
+        this.adapter.log.info(`Executing parity check action: ${action}`);
+
+        switch (action) {
+            case 'start':
+            case 'startCorrecting': {
+                const correct = action === 'startCorrecting';
+                const startResult = await this.apolloClient.mutate(PARITY_CHECK_START_MUTATION, { correct });
+                this.adapter.log.debug(`Parity check start mutation result: ${JSON.stringify(startResult)}`);
+                break;
+            }
+
+            case 'pause': {
+                const pauseResult = await this.apolloClient.mutate(PARITY_CHECK_PAUSE_MUTATION);
+                this.adapter.log.debug(`Parity check pause mutation result: ${JSON.stringify(pauseResult)}`);
+                break;
+            }
+
+            case 'resume': {
+                const resumeResult = await this.apolloClient.mutate(PARITY_CHECK_RESUME_MUTATION);
+                this.adapter.log.debug(`Parity check resume mutation result: ${JSON.stringify(resumeResult)}`);
+                break;
+            }
+
+            case 'cancel': {
+                const cancelResult = await this.apolloClient.mutate(PARITY_CHECK_CANCEL_MUTATION);
+                this.adapter.log.debug(`Parity check cancel mutation result: ${JSON.stringify(cancelResult)}`);
+                break;
+            }
+
+            default:
+                throw new Error(`Unknown parity check action: ${action}`);
+        }
+    }
+
+    /**
+     * Execute notification management actions
+     *
+     * @param action - Action to perform (notify, archiveAll*, archive, markUnread, deleteArchived, recalculateOverview)
+     * @param value - Notification id for `archive` and `markUnread`, JSON payload for `notify`
+     */
+    private async executeNotificationAction(action: string, value: ioBroker.StateValue): Promise<void> {
+        if (action === 'notify') {
+            const notification = await this.createNotification(value);
+            if (!notification) {
+                this.adapter.log.info('Notification not created: an equivalent unread notification already exists');
+            }
+            return;
+        }
+
+        if (!this.isSupported('notificationControl', 'Notification management')) {
+            return;
+        }
+
+        if (ARCHIVE_ALL_IMPORTANCE.has(action)) {
+            const importance = ARCHIVE_ALL_IMPORTANCE.get(action) ?? null;
+            const archiveAllResult = await this.apolloClient.mutate(NOTIFICATION_ARCHIVE_ALL_MUTATION, { importance });
+            this.adapter.log.debug(`Notification archiveAll mutation result: ${JSON.stringify(archiveAllResult)}`);
+            return;
+        }
+
+        switch (action) {
+            case 'archive':
+            case 'markUnread': {
+                const id = typeof value === 'string' ? value.trim() : '';
+                if (!id) {
+                    throw new Error(`Notification ${action} requires a notification id`);
+                }
+                const mutation = action === 'archive' ? NOTIFICATION_ARCHIVE_MUTATION : NOTIFICATION_UNREAD_MUTATION;
+                const result = await this.apolloClient.mutate(mutation, { id });
+                this.adapter.log.debug(`Notification ${action} mutation result: ${JSON.stringify(result)}`);
+                break;
+            }
+
+            case 'deleteArchived': {
+                const deleteResult = await this.apolloClient.mutate(NOTIFICATION_DELETE_ARCHIVED_MUTATION);
+                this.adapter.log.debug(`Notification deleteArchived mutation result: ${JSON.stringify(deleteResult)}`);
+                break;
+            }
+
+            case 'recalculateOverview': {
+                const recalculateResult = await this.apolloClient.mutate(NOTIFICATION_RECALCULATE_OVERVIEW_MUTATION);
+                this.adapter.log.debug(
+                    `Notification recalculateOverview mutation result: ${JSON.stringify(recalculateResult)}`,
+                );
+                break;
+            }
+
+            default:
+                throw new Error(`Unknown notification action: ${action}`);
+        }
+    }
+
+    /**
+     * Create a notification on the Unraid server.
+     * Shared by `notifications.commands.notify` and the `notify` sendTo message.
+     *
+     * @param payload - Object or JSON string with `title`, `subject`, optional `description`,
+     *   `importance` (INFO/WARNING/ALERT, default INFO), `link` and `unique`
+     * @returns The created notification, or null if `unique` was set and an equivalent unread one exists
+     */
+    async createNotification(payload: unknown): Promise<Record<string, unknown> | null> {
+        if (!this.capabilities.notificationCreate) {
+            throw new Error('Creating notifications is not supported by this Unraid server');
+        }
+
+        const { input, unique } = this.parseNotificationInput(payload);
+        this.adapter.log.info(`Creating ${String(input.importance)} notification "${String(input.subject)}"`);
+
+        if (unique) {
+            const result = await this.apolloClient.mutate(NOTIFICATION_NOTIFY_IF_UNIQUE_MUTATION, { input });
+            this.adapter.log.debug(`Notification notifyIfUnique mutation result: ${JSON.stringify(result)}`);
+            return (result as { notifyIfUnique?: Record<string, unknown> | null })?.notifyIfUnique ?? null;
+        }
+
+        const result = await this.apolloClient.mutate(NOTIFICATION_CREATE_MUTATION, { input });
+        this.adapter.log.debug(`Notification create mutation result: ${JSON.stringify(result)}`);
+        return (result as { createNotification?: Record<string, unknown> | null })?.createNotification ?? null;
+    }
+
+    /**
+     * Validate a notification payload and convert it to `NotificationData`
+     *
+     * @param payload - Object or JSON string as passed to {@link createNotification}
+     * @returns GraphQL input and whether `notifyIfUnique` should be used
+     */
+    private parseNotificationInput(payload: unknown): { input: Record<string, unknown>; unique: boolean } {
+        let data = payload;
+        if (typeof payload === 'string') {
+            try {
+                data = JSON.parse(payload);
+            } catch {
+                throw new Error('Notification payload is not valid JSON');
+            }
+        }
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            throw new Error('Notification payload must be an object');
+        }
+
+        const fields = data as Record<string, unknown>;
+        const text = (key: string, required: boolean): string => {
+            const value = fields[key];
+            if (typeof value === 'string' && value.trim()) {
+                return value;
+            }
+            if (required) {
+                throw new Error(`Notification ${key} is required`);
+            }
+            return '';
+        };
+
+        const importance = typeof fields.importance === 'string' ? fields.importance.toUpperCase() : 'INFO';
+        if (!NOTIFICATION_IMPORTANCES.includes(importance)) {
+            throw new Error(`Invalid notification importance: ${importance} (expected INFO, WARNING or ALERT)`);
+        }
+
+        const input: Record<string, unknown> = {
+            title: text('title', true),
+            subject: text('subject', true),
+            description: text('description', false),
+            importance,
+        };
+        const link = text('link', false);
+        if (link) {
+            input.link = link;
+        }
+
+        return { input, unique: fields.unique === true };
+    }
+
+    /**
+     * Reset button state back to false (or '' for id inputs)
      *
      * @param stateId - Button state ID to reset
+     * @param value - Value to reset to
      */
-    private async resetButton(stateId: string): Promise<void> {
-        await this.adapter.setStateAsync(stateId, { val: false, ack: true });
+    private async resetButton(stateId: string, value: ioBroker.StateValue = false): Promise<void> {
+        // The button is gone together with its container after a successful removal
+        if (!(await this.adapter.getObjectAsync(stateId))) {
+            return;
+        }
+        await this.adapter.setStateAsync(stateId, { val: value, ack: true });
     }
 
     /**
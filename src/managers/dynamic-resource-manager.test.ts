@@ -0,0 +1,520 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { DynamicResourceManager } from './dynamic-resource-manager';
+import type { StateManager } from './state-manager';
+import type { Capabilities } from '../shared/capabilities';
+import { allCapabilitiesEnabled } from '../shared/capabilities';
+import type { AdapterInterface } from '../types/adapter-types';
+
+interface Fixture {
+    manager: DynamicResourceManager;
+    adapter: {
+        log: { debug: sinon.SinonStub; info: sinon.SinonStub; warn: sinon.SinonStub; error: sinon.SinonStub };
+        setObjectAsync: sinon.SinonStub;
+        setStateAsync: sinon.SinonStub;
+        delObjectAsync: sinon.SinonStub;
+        getStateAsync: sinon.SinonStub;
+    };
+    stateManager: { writeState: sinon.SinonStub; updateState: sinon.SinonStub };
+    /** Values written through the StateManager, by state id */
+    written: Map<string, unknown>;
+}
+
+/**
+ * Create a DynamicResourceManager with stubbed adapter and StateManager
+ *
+ * @param capabilities - Capabilities to use (all enabled by default)
+ */
+function createFixture(capabilities: Capabilities = allCapabilitiesEnabled()): Fixture {
+    const written = new Map<string, unknown>();
+    const adapter = {
+        log: { debug: sinon.stub(), info: sinon.stub(), warn: sinon.stub(), error: sinon.stub() },
+        setObjectAsync: sinon.stub().resolves(),
+        setStateAsync: sinon.stub().resolves(),
+        delObjectAsync: sinon.stub().resolves(),
+        getStateAsync: sinon.stub().resolves(null),
+    };
+    const record = (id: string, ...rest: unknown[]): Promise<void> => {
+        written.set(id, rest[rest.length - 1]);
+        return Promise.resolve();
+    };
+    const stateManager = { writeState: sinon.stub().callsFake(record), updateState: sinon.stub().callsFake(record) };
+    const manager = new DynamicResourceManager(
+        adapter as unknown as AdapterInterface,
+        stateManager as unknown as StateManager,
+        capabilities,
+    );
+    return { manager, adapter, stateManager, written };
+}
+
+/**
+ * Ids of all objects created via setObjectAsync
+ *
+ * @param fixture - Test fixture
+ */
+function createdObjectIds(fixture: Fixture): string[] {
+    return fixture.adapter.setObjectAsync.args.map(args => String(args[0]));
+}
+
+describe('DynamicResourceManager => notification controls', () => {
+    const selected = new Set(['notifications.overview']);
+
+    it('should create all buttons when both mutation groups are available', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleNotificationControls(selected);
+
+        expect(createdObjectIds(fixture)).to.include.members([
+            'notifications.commands.archiveAll',
+            'notifications.commands.archive',
+            'notifications.commands.notify',
+        ]);
+    });
+
+    it('should create only notify when the server can create but not archive notifications', async () => {
+        const fixture = createFixture({ ...allCapabilitiesEnabled(), notificationControl: false });
+
+        await fixture.manager.handleNotificationControls(selected);
+
+        expect(createdObjectIds(fixture)).to.deep.equal(['notifications.commands.notify']);
+    });
+
+    it('should skip notify when the server cannot create notifications', async () => {
+        const fixture = createFixture({ ...allCapabilitiesEnabled(), notificationCreate: false });
+
+        await fixture.manager.handleNotificationControls(selected);
+
+        expect(createdObjectIds(fixture)).to.not.include('notifications.commands.notify');
+        expect(createdObjectIds(fixture)).to.include('notifications.commands.archiveAll');
+    });
+
+    it('should create nothing without a notifications domain', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleNotificationControls(new Set(['array.status']));
+
+        expect(fixture.adapter.setObjectAsync).to.not.have.been.called;
+    });
+});
+
+describe('DynamicResourceManager => UPS devices', () => {
+    const selected = new Set(['ups.devices']);
+    const device = (name: string, status: string, chargeLevel: number): Record<string, unknown> => ({
+        id: `ups-${name}`,
+        name,
+        model: 'Back-UPS ES 700G',
+        status,
+        battery: { chargeLevel, estimatedRuntime: 1800, health: 'Good' },
+        power: { inputVoltage: 230, outputVoltage: 230, loadPercentage: 12, nominalPower: 405, currentPower: 48 },
+    });
+
+    it('should create one channel per UPS and write its values', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleDynamicUpsDevices({ upsDevices: [device('Back UPS', 'Online', 100)] }, selected);
+
+        expect(fixture.written.get('ups.count')).to.equal(1);
+        expect(fixture.written.get('ups.Back_UPS.status')).to.equal('Online');
+        expect(fixture.written.get('ups.Back_UPS.onBattery')).to.equal(false);
+        expect(fixture.written.get('ups.Back_UPS.battery.chargeLevel')).to.equal(100);
+        expect(fixture.written.get('ups.Back_UPS.power.currentPower')).to.equal(48);
+    });
+
+    it('should only update values while the set of devices is unchanged', async () => {
+        const fixture = createFixture();
+        await fixture.manager.handleDynamicUpsDevices({ upsDevices: [device('ups', 'Online', 100)] }, selected);
+        fixture.stateManager.writeState.resetHistory();
+
+        await fixture.manager.handleDynamicUpsDevices({ upsDevices: [device('ups', 'On Battery', 87)] }, selected);
+
+        expect(fixture.stateManager.writeState).to.not.have.been.called;
+        expect(fixture.written.get('ups.ups.onBattery')).to.equal(true);
+        expect(fixture.written.get('ups.ups.battery.chargeLevel')).to.equal(87);
+    });
+
+    it('should ignore the data when the domain is not selected', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleDynamicUpsDevices({ upsDevices: [device('ups', 'Online', 100)] }, new Set());
+
+        expect(fixture.written.size).to.equal(0);
+    });
+});
+
+describe('DynamicResourceManager => UPS subscription updates', () => {
+    const selected = new Set(['ups.devices']);
+
+    it('should apply pushed readings to a known UPS', async () => {
+        const fixture = createFixture();
+        await fixture.manager.handleDynamicUpsDevices(
+            { upsDevices: [{ id: 'u1', name: 'ups', status: 'Online' }] },
+            selected,
+        );
+
+        await fixture.manager.applyUpsUpdate(
+            { id: 'u1', name: 'ups', status: 'ONBATT', battery: { chargeLevel: 64 } },
+            selected,
+        );
+
+        expect(fixture.written.get('ups.ups.onBattery')).to.equal(true);
+        expect(fixture.written.get('ups.ups.battery.chargeLevel')).to.equal(64);
+    });
+
+    it('should leave unknown devices and pushes before the first poll to the poller', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.applyUpsUpdate({ id: 'u1', name: 'ups', status: 'Online' }, selected);
+        await fixture.manager.handleDynamicUpsDevices({ upsDevices: [{ id: 'u1', name: 'ups' }] }, selected);
+        fixture.written.clear();
+        await fixture.manager.applyUpsUpdate({ id: 'u2', name: 'other', status: 'Online' }, selected);
+
+        expect(fixture.written.size).to.equal(0);
+        expect(fixture.adapter.setObjectAsync).to.not.have.been.called;
+    });
+});
+
+describe('DynamicResourceManager => physical disks', () => {
+    const selected = new Set(['disks.physical']);
+    const disk = (overrides: Record<string, unknown>): Record<string, unknown> => ({
+        id: 'disk-1',
+        device: '/dev/sdb',
+        name: 'WDC WD40EFRX',
+        vendor: 'WDC',
+        serialNum: 'WD-WCC4E1234567',
+        type: 'HDD',
+        size: 4 * 1024 ** 4,
+        temperature: 34,
+        isSpinning: true,
+        partitions: [{ name: 'sdb1', fsType: 'XFS', size: 4 * 1024 ** 4 }],
+        ...overrides,
+    });
+
+    it('should key the disks by their sanitized serial number', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleDynamicPhysicalDisks(
+            { disks: [disk({}), disk({ id: 'disk-2', serialNum: 'S3Z9 NB0K.123' })] },
+            selected,
+        );
+
+        expect(fixture.written.get('disks.physical.count')).to.equal(2);
+        expect(fixture.written.get('disks.physical.WD-WCC4E1234567.temperature')).to.equal(34);
+        expect(fixture.written.get('disks.physical.WD-WCC4E1234567.sizeGb')).to.equal(4096);
+        expect(fixture.written.get('disks.physical.WD-WCC4E1234567.partitionCount')).to.equal(1);
+        expect(JSON.parse(fixture.written.get('disks.physical.WD-WCC4E1234567.partitions') as string)).to.deep.equal([
+            { name: 'sdb1', fsType: 'XFS', sizeGb: 4096 },
+        ]);
+        expect(fixture.written.has('disks.physical.S3Z9_NB0K_123.name')).to.equal(true);
+    });
+
+    it('should fall back to the API id for disks without a serial number', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleDynamicPhysicalDisks({ disks: [disk({ serialNum: '  ' })] }, selected);
+
+        expect(fixture.written.get('disks.physical.disk-1.device')).to.equal('/dev/sdb');
+    });
+
+    it('should recreate the states only when the set of disks changes', async () => {
+        const fixture = createFixture();
+        await fixture.manager.handleDynamicPhysicalDisks({ disks: [disk({})] }, selected);
+        fixture.stateManager.writeState.resetHistory();
+
+        await fixture.manager.handleDynamicPhysicalDisks({ disks: [disk({ isSpinning: false })] }, selected);
+        expect(fixture.stateManager.writeState).to.not.have.been.called;
+        expect(fixture.written.get('disks.physical.WD-WCC4E1234567.isSpinning')).to.equal(false);
+
+        await fixture.manager.handleDynamicPhysicalDisks(
+            { disks: [disk({}), disk({ id: 'disk-2', serialNum: 'NEW' })] },
+            selected,
+        );
+        expect(fixture.written.get('disks.physical.count')).to.equal(2);
+    });
+});
+
+describe('DynamicResourceManager => Docker container stats', () => {
+    const selected = new Set(['docker.containers']);
+    const containers = {
+        docker: { containers: [{ id: 'server:4f1c2d3e4b5a6978', names: ['/plex'], state: 'RUNNING' }] },
+    };
+    const sample = (cpuPercent: number): Record<string, unknown> => ({
+        id: '4f1c2d3e4b5a',
+        cpuPercent,
+        memPercent: 12.345,
+        memUsage: '512MiB / 4GiB',
+        netIO: '1.5kB / 2MB',
+        blockIO: '0B / 0B',
+    });
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers({ now: Date.now() });
+    });
+
+    afterEach(() => {
+        clock.restore();
+    });
+
+    it('should match the short stats id and write the parsed values', async () => {
+        const fixture = createFixture();
+        await fixture.manager.handleDynamicDockerContainers(containers, selected);
+
+        await fixture.manager.applyDockerContainerStats(sample(3.14159), selected, 10_000);
+
+        expect(fixture.written.get('docker.containers.plex.stats.cpuPercent')).to.equal(3.14);
+        expect(fixture.written.get('docker.containers.plex.stats.memPercent')).to.equal(12.35);
+        expect(fixture.written.get('docker.containers.plex.stats.memUsedBytes')).to.equal(512 * 1024 ** 2);
+        expect(fixture.written.get('docker.containers.plex.stats.netTxBytes')).to.equal(2_000_000);
+    });
+
+    it('should write each container at most once per interval', async () => {
+        const fixture = createFixture();
+        await fixture.manager.handleDynamicDockerContainers(containers, selected);
+
+        await fixture.manager.applyDockerContainerStats(sample(1), selected, 10_000);
+        clock.tick(9_999);
+        await fixture.manager.applyDockerContainerStats(sample(2), selected, 10_000);
+        expect(fixture.written.get('docker.containers.plex.stats.cpuPercent')).to.equal(1);
+
+        clock.tick(1);
+        await fixture.manager.applyDockerContainerStats(sample(3), selected, 10_000);
+        expect(fixture.written.get('docker.containers.plex.stats.cpuPercent')).to.equal(3);
+    });
+
+    it('should ignore stats of unknown containers', async () => {
+        const fixture = createFixture();
+        await fixture.manager.handleDynamicDockerContainers(containers, selected);
+
+        await fixture.manager.applyDockerContainerStats({ ...sample(1), id: 'ffffffffffff' }, selected, 10_000);
+
+        expect([...fixture.written.keys()].some(id => id.includes('.stats.'))).to.equal(false);
+    });
+});
+
+describe('DynamicResourceManager => Docker container field groups', () => {
+    const container = (fields: Record<string, unknown>): Record<string, unknown> => ({
+        id: 'server:plex-id',
+        names: ['/plex'],
+        state: 'RUNNING',
+        ...fields,
+    });
+
+    it('should write the fields of the selected groups only', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleDynamicDockerContainers(
+            {
+                docker: {
+                    containers: [
+                        container({
+                            webUiUrl: 'http://tower:32400/web',
+                            ports: [{ privatePort: 32400, publicPort: 32400, type: 'TCP' }],
+                            sizeRw: 2 * 1024 ** 3,
+                        }),
+                    ],
+                },
+            },
+            new Set(['docker.containers', 'docker.containers.links', 'docker.containers.storage']),
+        );
+
+        expect(fixture.written.get('docker.containers.plex.webUiUrl')).to.equal('http://tower:32400/web');
+        expect(fixture.written.get('docker.containers.plex.sizeRwGb')).to.equal(2);
+        expect(fixture.written.has('docker.containers.plex.ports')).to.equal(false);
+    });
+
+    it('should skip fields missing from the response and transform the others', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleDynamicDockerContainers(
+            {
+                docker: {
+                    containers: [
+                        container({ imageId: 'sha256:abc', created: 1_700_000_000, mounts: [{ Source: '/mnt' }] }),
+                    ],
+                },
+            },
+            new Set(['docker.containers', 'docker.containers.details', 'docker.containers.storage']),
+        );
+
+        expect(fixture.written.get('docker.containers.plex.created')).to.equal(1_700_000_000_000);
+        expect(fixture.written.get('docker.containers.plex.mounts')).to.equal('[{"Source":"/mnt"}]');
+        expect(fixture.written.has('docker.containers.plex.autoStartOrder')).to.equal(false);
+        expect(fixture.written.has('docker.containers.plex.sizeRwGb')).to.equal(false);
+    });
+
+    it('should write nothing without docker.containers', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleDynamicDockerContainers(
+            { docker: { containers: [container({ webUiUrl: 'http://tower' })] } },
+            new Set(['docker.updates', 'docker.containers.links']),
+        );
+
+        expect([...fixture.written.keys()].some(id => id.endsWith('.webUiUrl'))).to.equal(false);
+    });
+});
+
+describe('DynamicResourceManager => Docker networks', () => {
+    const selected = new Set(['docker.networks']);
+    const network = (name: string, containers: Record<string, unknown> | null): Record<string, unknown> => ({
+        id: `${name}-id`,
+        name,
+        driver: 'bridge',
+        scope: 'local',
+        internal: false,
+        containers,
+    });
+
+    it('should list the attached containers sorted by name', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleDynamicDockerNetworks(
+            {
+                docker: {
+                    networks: [
+                        network('br0', {
+                            c2: { Name: 'sonarr', IPv4Address: '172.17.0.3/16' },
+                            c1: { Name: 'plex', IPv4Address: '172.17.0.2/16' },
+                        }),
+                        network('my.net', null),
+                    ],
+                },
+            },
+            selected,
+        );
+
+        expect(fixture.written.get('docker.networks.count')).to.equal(2);
+        expect(fixture.written.get('docker.networks.br0.driver')).to.equal('bridge');
+        expect(fixture.written.get('docker.networks.br0.containerCount')).to.equal(2);
+        expect(fixture.written.get('docker.networks.br0.containers')).to.equal('["plex","sonarr"]');
+        expect(fixture.written.get('docker.networks.my_net.containerCount')).to.equal(0);
+    });
+
+    it('should only update values while the set of networks is unchanged', async () => {
+        const fixture = createFixture();
+        await fixture.manager.handleDynamicDockerNetworks({ docker: { networks: [network('br0', {})] } }, selected);
+        fixture.stateManager.writeState.resetHistory();
+
+        await fixture.manager.handleDynamicDockerNetworks(
+            { docker: { networks: [network('br0', { c1: { Name: 'plex' } })] } },
+            selected,
+        );
+
+        expect(fixture.stateManager.writeState).to.not.have.been.called;
+        expect(fixture.written.get('docker.networks.br0.containerCount')).to.equal(1);
+    });
+});
+
+describe('DynamicResourceManager => derived VM states', () => {
+    const selected = new Set(['vms.list']);
+    const vms = (state: string): Record<string, unknown> => ({
+        vms: { domains: [{ id: 'server:vm-id', name: 'win 11', uuid: 'vm-uuid', state }] },
+    });
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers({ now: Date.now() });
+    });
+
+    afterEach(() => {
+        clock.restore();
+    });
+
+    it('should leave the uptime unknown for a VM that was already running', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleDynamicVms(vms('RUNNING'), selected);
+
+        expect(fixture.written.get('vms.win_11.isRunning')).to.equal(true);
+        expect(fixture.written.get('vms.win_11.lastStateChange')).to.equal(null);
+        expect(fixture.written.get('vms.win_11.uptimeSeconds')).to.equal(null);
+    });
+
+    it('should count the uptime from the observed start', async () => {
+        const fixture = createFixture();
+        await fixture.manager.handleDynamicVms(vms('SHUTOFF'), selected);
+        expect(fixture.written.get('vms.win_11.uptimeSeconds')).to.equal(0);
+
+        await fixture.manager.handleDynamicVms(vms('RUNNING'), selected);
+        const startedAt = Date.now();
+        clock.tick(90_000);
+        await fixture.manager.handleDynamicVms(vms('RUNNING'), selected);
+
+        expect(fixture.written.get('vms.win_11.lastStateChange')).to.equal(startedAt);
+        expect(fixture.written.get('vms.win_11.uptimeSeconds')).to.equal(90);
+    });
+
+    it('should apply states observed outside the poll only to known VMs', async () => {
+        const fixture = createFixture();
+        await fixture.manager.handleDynamicVms(vms('SHUTOFF'), selected);
+
+        await fixture.manager.applyVmState('win 11', 'vm-uuid', 'RUNNING');
+        await fixture.manager.applyVmState('other', 'other-uuid', 'RUNNING');
+
+        expect(fixture.written.get('vms.win_11.state')).to.equal('RUNNING');
+        expect(fixture.written.get('vms.win_11.isRunning')).to.equal(true);
+        expect(fixture.written.get('vms.win_11.lastStateChange')).to.equal(Date.now());
+        expect(fixture.written.has('vms.other.state')).to.equal(false);
+    });
+
+    it('should keep the stored state change across adapter restarts while the state is unchanged', async () => {
+        const fixture = createFixture();
+        const since = Date.now() - 3_600_000;
+        fixture.adapter.getStateAsync.withArgs('vms.win_11.state').resolves({ val: 'RUNNING' });
+        fixture.adapter.getStateAsync.withArgs('vms.win_11.lastStateChange').resolves({ val: since });
+
+        await fixture.manager.handleDynamicVms(vms('RUNNING'), selected);
+
+        expect(fixture.written.get('vms.win_11.lastStateChange')).to.equal(since);
+        expect(fixture.written.get('vms.win_11.uptimeSeconds')).to.equal(3600);
+    });
+});
+
+describe('DynamicResourceManager => GPUs', () => {
+    const selected = new Set(['info.hardware']);
+    const gpu = (typeid: string | null, vendorname: string): Record<string, unknown> => ({
+        id: `gpu-${vendorname}`,
+        type: 'VGA compatible controller',
+        typeid,
+        vendorname,
+        productid: '2484',
+        class: 'vga',
+        blacklisted: false,
+    });
+    const hardware = (gpus: unknown[]): Record<string, unknown> => ({ info: { devices: { gpu: gpus } } });
+
+    it('should create one channel per GPU keyed by its PCI id', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleDynamicGpus(
+            hardware([gpu('0000:01:00.0', 'NVIDIA'), gpu(null, 'Intel')]),
+            selected,
+        );
+
+        expect(fixture.written.get('info.hardware.gpus.0000_01_00_0.vendorname')).to.equal('NVIDIA');
+        expect(fixture.written.get('info.hardware.gpus.0000_01_00_0.blacklisted')).to.equal(false);
+        expect(fixture.written.get('info.hardware.gpus.gpu-Intel.typeid')).to.equal(null);
+    });
+
+    it('should only update values while the set of GPUs is unchanged', async () => {
+        const fixture = createFixture();
+        await fixture.manager.handleDynamicGpus(hardware([gpu('0000:01:00.0', 'NVIDIA')]), selected);
+        fixture.stateManager.writeState.resetHistory();
+
+        await fixture.manager.handleDynamicGpus(
+            hardware([{ ...gpu('0000:01:00.0', 'NVIDIA'), blacklisted: true }]),
+            selected,
+        );
+
+        expect(fixture.stateManager.writeState).to.not.have.been.called;
+        expect(fixture.written.get('info.hardware.gpus.0000_01_00_0.blacklisted')).to.equal(true);
+    });
+
+    it('should ignore the data when the domain is not selected', async () => {
+        const fixture = createFixture();
+
+        await fixture.manager.handleDynamicGpus(hardware([gpu('0000:01:00.0', 'NVIDIA')]), new Set());
+
+        expect(fixture.written.size).to.equal(0);
+    });
+});
@@ -1,6 +1,7 @@
 import type { AdapterInterface } from '../types/adapter-types';
 import type { StateManager } from './state-manager';
 import type { ObjectManager } from './object-manager';
+import type { Capabilities } from '../shared/capabilities';
 import {
     kilobytesToGigabytes,
     bytesToGigabytes,
@@ -10,8 +11,25 @@ import {
     toBooleanOrNull,
     bigIntToNumber,
     sanitizeResourceName,
+    isUpsOnBattery,
+    parseDockerSizePair,
+    resolveDockerFolders,
 } from '../utils/data-transformers';
-import { DOCKER_CONTROL_STATES, VM_CONTROL_STATES } from '../shared/unraid-domains';
+import {
+    ARRAY_CONTROL_STATES,
+    DOCKER_AUTOSTART_WRITABLE_COMMON,
+    DOCKER_BULK_UPDATE_CONTROL_STATES,
+    DOCKER_CONTAINER_FIELD_GROUPS,
+    DOCKER_CONTROL_STATES,
+    DOCKER_FOLDER_CONTROL_STATES,
+    DOCKER_LOG_CONTROL_STATES,
+    DOCKER_REFRESH_DIGESTS_CONTROL_STATES,
+    DOCKER_REMOVE_CONTROL_STATES,
+    NOTIFICATION_CONTROL_STATES,
+    PARITY_CHECK_CONTROL_STATES,
+    VM_CONTROL_STATES,
+    type StateMapping,
+} from '../shared/unraid-domains';
 import stateTranslations from '../translations/state-names.json';
 
 /**
@@ -44,6 +62,28 @@ export class DynamicResourceManager {
     // Dynamic VM tracking
     private vmsDetected = false;
     private vmUuids: Set<string> = new Set();
+    // Last observed VM state and when it changed (null = unknown), keyed by uuid
+    private vmStateSince: Map<string, { state: string | null; since: number | null }> = new Map();
+
+    // Dynamic UPS tracking
+    private upsDevicesDetected = false;
+    private upsIds: Set<string> = new Set();
+
+    // Dynamic Docker network tracking
+    private dockerNetworksDetected = false;
+    private dockerNetworkNames: Set<string> = new Set();
+
+    // Dynamic GPU tracking (sanitized PCI id)
+    private gpusDetected = false;
+    private gpuIds: Set<string> = new Set();
+
+    // Dynamic Docker folder tracking (organizer entry id -> state id part)
+    private dockerFoldersDetected = false;
+    private dockerFolderResourceIds: Map<string, string> = new Map();
+
+    // Dynamic physical disk tracking (keyed by serial number)
+    private physicalDisksDetected = false;
+    private physicalDiskSerials: Set<string> = new Set();
 
     // Dynamic temperature board sensor tracking
     private temperatureBoardDetected = false;
@@ -55,11 +95,30 @@ export class DynamicResourceManager {
     // Docker isUpdateAvailable field creation tracking per container
     private dockerIsUpdateAvailableCreated: Set<string> = new Set();
 
+    // Parity check control button tracking
+    private parityCheckControlsCreated = false;
+
+    // Array start/stop control button tracking
+    private arrayControlsHandled = false;
+
+    // Notification management control tracking
+    private notificationControlsCreated = false;
+
+    // Bulk Docker update control tracking (docker.updates.commands / updateList)
+    private dockerUpdateControlsCreated = false;
+
     // Tracks the Docker container ID per container name so we can refresh
     // control button metadata when the ID changes (e.g. after updateContainer
     // recreates the container with a new hash).
     private containerIdByName: Map<string, string> = new Map();
 
+    // Optional container field group states (docker.containers.links/network/storage/details)
+    private dockerFieldGroupStatesCreated: Set<string> = new Set();
+
+    // Docker container stats pushed via the dockerContainerStats subscription
+    private dockerStatsCreated: Set<string> = new Set();
+    private dockerStatsLastWrite: Map<string, number> = new Map();
+
     private objectManager?: ObjectManager;
 
     /**
@@ -67,10 +126,12 @@ export class DynamicResourceManager {
      *
      * @param adapter - Adapter interface for logging and state management
      * @param stateManager - State manager instance for creating/updating states
+     * @param capabilities - Detected Unraid API capabilities (shared reference, updated after introspection)
      */
     constructor(
         private readonly adapter: AdapterInterface,
         private readonly stateManager: StateManager,
+        private readonly capabilities: Capabilities,
     ) {}
 
     /**
@@ -82,6 +143,14 @@ export class DynamicResourceManager {
         this.objectManager = objectManager;
     }
 
+    /**
+     * Whether autoStart/autoStartWait/autoStartOrder are created writable. The order fields are
+     * required as well, otherwise a write could not preserve the existing autostart order.
+     */
+    private get autoStartWritable(): boolean {
+        return this.capabilities.dockerAutoStartControl && this.capabilities.dockerAutoStartOrder;
+    }
+
     /**
      * Reset tracking for deselected domains
      *
@@ -110,6 +179,19 @@ export class DynamicResourceManager {
             this.dockerContainersDetected = false;
             this.containerNames.clear();
             this.containerIdByName.clear();
+            this.dockerStatsCreated.clear();
+            this.dockerStatsLastWrite.clear();
+            this.dockerFieldGroupStatesCreated.clear();
+        }
+
+        for (const group of DOCKER_CONTAINER_FIELD_GROUPS) {
+            if (!selectedDomains.has(group.domain)) {
+                for (const stateId of this.dockerFieldGroupStatesCreated) {
+                    if (group.states.some(state => stateId.endsWith(`.${state.id}`))) {
+                        this.dockerFieldGroupStatesCreated.delete(stateId);
+                    }
+                }
+            }
         }
 
         if (!selectedDomains.has('shares.list')) {
@@ -120,6 +202,32 @@ export class DynamicResourceManager {
         if (!selectedDomains.has('vms.list')) {
             this.vmsDetected = false;
             this.vmUuids.clear();
+            this.vmStateSince.clear();
+        }
+
+        if (!selectedDomains.has('ups.devices')) {
+            this.upsDevicesDetected = false;
+            this.upsIds.clear();
+        }
+
+        if (!selectedDomains.has('docker.networks')) {
+            this.dockerNetworksDetected = false;
+            this.dockerNetworkNames.clear();
+        }
+
+        if (!selectedDomains.has('docker.folders')) {
+            this.dockerFoldersDetected = false;
+            this.dockerFolderResourceIds.clear();
+        }
+
+        if (!selectedDomains.has('info.hardware')) {
+            this.gpusDetected = false;
+            this.gpuIds.clear();
+        }
+
+        if (!selectedDomains.has('disks.physical')) {
+            this.physicalDisksDetected = false;
+            this.physicalDiskSerials.clear();
         }
 
         if (!selectedDomains.has('metrics.temperature.board')) {
@@ -129,11 +237,24 @@ export class DynamicResourceManager {
 
         if (!selectedDomains.has('docker.updates')) {
             this.dockerUpdatesSummaryCreated = false;
+            this.dockerUpdateControlsCreated = false;
         }
 
         if (!selectedDomains.has('docker.containers')) {
             this.dockerIsUpdateAvailableCreated.clear();
         }
+
+        if (!selectedDomains.has('array.parityCheck')) {
+            this.parityCheckControlsCreated = false;
+        }
+
+        if (!selectedDomains.has('array.status')) {
+            this.arrayControlsHandled = false;
+        }
+
+        if (!selectedDomains.has('notifications.overview') && !selectedDomains.has('notifications.warningsAndAlerts')) {
+            this.notificationControlsCreated = false;
+        }
     }
 
     /**
@@ -512,7 +633,9 @@ export class DynamicResourceManager {
                 await this.stateManager.writeState(`${containerPrefix}.status`, { type: 'string', role: 'text' }, null);
                 await this.stateManager.writeState(
                     `${containerPrefix}.autoStart`,
-                    { type: 'boolean', role: 'indicator' },
+                    this.autoStartWritable
+                        ? DOCKER_AUTOSTART_WRITABLE_COMMON.autoStart
+                        : { type: 'boolean', role: 'indicator' },
                     null,
                 );
                 await this.stateManager.writeState(
@@ -521,6 +644,14 @@ export class DynamicResourceManager {
                     null,
                 );
 
+                if (this.capabilities.dockerLogs) {
+                    await this.stateManager.writeState(
+                        `${containerPrefix}.logs.lastLines`,
+                        { type: 'string', role: 'text' },
+                        null,
+                    );
+                }
+
                 // Create control buttons for container
                 await this.createDockerControlButtons(containerPrefix, c.id as string | null);
             }
@@ -554,6 +685,32 @@ export class DynamicResourceManager {
             }
         }
 
+        // Ensure the states of the selected optional field groups exist. Like isUpdateAvailable,
+        // a state is only created once the (capability-gated) field appears in the response.
+        const selectedFieldGroups = DOCKER_CONTAINER_FIELD_GROUPS.filter(group => selectedDomains.has(group.domain));
+        if (wantsContainers && selectedFieldGroups.length > 0) {
+            for (const container of containers) {
+                const c = container as Record<string, unknown>;
+                const names = c.names as string[] | null;
+                if (!names || !Array.isArray(names) || names.length === 0) {
+                    continue;
+                }
+                const containerPrefix = `docker.containers.${sanitizeResourceName(names[0].replace(/^\//, ''))}`;
+                for (const group of selectedFieldGroups) {
+                    for (const mapping of group.states) {
+                        const stateId = `${containerPrefix}.${mapping.id}`;
+                        if (!(mapping.path[0] in c) || this.dockerFieldGroupStatesCreated.has(stateId)) {
+                            continue;
+                        }
+                        const common =
+                            (this.autoStartWritable && DOCKER_AUTOSTART_WRITABLE_COMMON[mapping.id]) || mapping.common;
+                        await this.stateManager.writeState(stateId, common, null);
+                        this.dockerFieldGroupStatesCreated.add(stateId);
+                    }
+                }
+            }
+        }
+
         // Update container values (only when docker.containers is selected)
         if (wantsContainers) {
             for (const container of containers) {
@@ -583,6 +740,18 @@ export class DynamicResourceManager {
                         resolveIsUpdateAvailable(name, c.isUpdateAvailable),
                     );
                 }
+                for (const group of selectedFieldGroups) {
+                    for (const mapping of group.states) {
+                        const stateId = `${containerPrefix}.${mapping.id}`;
+                        if (this.dockerFieldGroupStatesCreated.has(stateId)) {
+                            const raw = c[mapping.path[0]];
+                            await this.stateManager.updateState(
+                                stateId,
+                                mapping.transform ? mapping.transform(raw) : raw,
+                            );
+                        }
+                    }
+                }
 
                 // Refresh control-button metadata if the container ID changed.
                 // This covers the case where `updateContainer` recreates the container
@@ -662,6 +831,116 @@ export class DynamicResourceManager {
         }
     }
 
+    /**
+     * Apply container stats pushed via the dockerContainerStats subscription.
+     * Payloads arrive every few seconds per running container, so each container
+     * is written at most once per `minIntervalMs`.
+     *
+     * @param stats - DockerContainerStats payload
+     * @param selectedDomains - Set of selected domain IDs
+     * @param minIntervalMs - Minimum time between two writes for the same container
+     */
+    async applyDockerContainerStats(
+        stats: Record<string, unknown>,
+        selectedDomains: Set<string>,
+        minIntervalMs: number,
+    ): Promise<void> {
+        if (!selectedDomains.has('docker.containers') || !this.dockerContainersDetected) {
+            return;
+        }
+
+        const statsId = toStringOrNull(stats.id);
+        const name = statsId ? this.findContainerNameById(statsId) : null;
+        if (!name) {
+            // Container not known yet (e.g. created since the last poll)
+            return;
+        }
+
+        const now = Date.now();
+        const lastWrite = this.dockerStatsLastWrite.get(name);
+        if (lastWrite !== undefined && now - lastWrite < minIntervalMs) {
+            return;
+        }
+        this.dockerStatsLastWrite.set(name, now);
+
+        const statsPrefix = `docker.containers.${sanitizeResourceName(name)}.stats`;
+        if (!this.dockerStatsCreated.has(statsPrefix)) {
+            await this.createDockerStatsStates(statsPrefix);
+            this.dockerStatsCreated.add(statsPrefix);
+        }
+
+        const roundPercent = (value: unknown): number | null => {
+            const numeric = toNumberOrNull(value);
+            return numeric === null ? null : Math.round(numeric * 100) / 100;
+        };
+        const [memUsed, memLimit] = parseDockerSizePair(stats.memUsage);
+        const [netRx, netTx] = parseDockerSizePair(stats.netIO);
+        const [blockRead, blockWrite] = parseDockerSizePair(stats.blockIO);
+
+        await this.stateManager.updateState(`${statsPrefix}.cpuPercent`, roundPercent(stats.cpuPercent));
+        await this.stateManager.updateState(`${statsPrefix}.memPercent`, roundPercent(stats.memPercent));
+        await this.stateManager.updateState(`${statsPrefix}.memUsedBytes`, memUsed);
+        await this.stateManager.updateState(`${statsPrefix}.memLimitBytes`, memLimit);
+        await this.stateManager.updateState(`${statsPrefix}.netRxBytes`, netRx);
+        await this.stateManager.updateState(`${statsPrefix}.netTxBytes`, netTx);
+        await this.stateManager.updateState(`${statsPrefix}.blockReadBytes`, blockRead);
+        await this.stateManager.updateState(`${statsPrefix}.blockWriteBytes`, blockWrite);
+    }
+
+    /**
+     * Resolve a container name from the id delivered by the stats subscription.
+     * `docker stats` reports the short 12-character id while the containers query
+     * returns the full id, so ids are compared by prefix after the server prefix.
+     *
+     * @param statsId - Container id from the stats payload
+     */
+    private findContainerNameById(statsId: string): string | null {
+        const bareId = (id: string): string => id.slice(id.lastIndexOf(':') + 1);
+        const wanted = bareId(statsId);
+        if (!wanted) {
+            return null;
+        }
+        for (const [name, id] of this.containerIdByName) {
+            const known = bareId(id);
+            if (known.startsWith(wanted) || wanted.startsWith(known)) {
+                return name;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Create the stats states of one container
+     *
+     * @param statsPrefix - State prefix of the stats channel (e.g. `docker.containers.plex.stats`)
+     */
+    private async createDockerStatsStates(statsPrefix: string): Promise<void> {
+        await this.stateManager.writeState(
+            `${statsPrefix}.cpuPercent`,
+            { type: 'number', role: 'value.percent', unit: '%' },
+            null,
+        );
+        await this.stateManager.writeState(
+            `${statsPrefix}.memPercent`,
+            { type: 'number', role: 'value.percent', unit: '%' },
+            null,
+        );
+        for (const field of [
+            'memUsedBytes',
+            'memLimitBytes',
+            'netRxBytes',
+            'netTxBytes',
+            'blockReadBytes',
+            'blockWriteBytes',
+        ]) {
+            await this.stateManager.writeState(
+                `${statsPrefix}.${field}`,
+                { type: 'number', role: 'value', unit: 'B' },
+                null,
+            );
+        }
+    }
+
     /**
      * Handle dynamic share state creation and updates
      *
@@ -841,6 +1120,21 @@ export class DynamicResourceManager {
                     null,
                 );
                 await this.stateManager.writeState(`${vmPrefix}.uuid`, { type: 'string', role: 'text' }, null);
+                await this.stateManager.writeState(
+                    `${vmPrefix}.isRunning`,
+                    { type: 'boolean', role: 'indicator.running' },
+                    null,
+                );
+                await this.stateManager.writeState(
+                    `${vmPrefix}.lastStateChange`,
+                    { type: 'number', role: 'date' },
+                    null,
+                );
+                await this.stateManager.writeState(
+                    `${vmPrefix}.uptimeSeconds`,
+                    { type: 'number', role: 'value.interval', unit: 's' },
+                    null,
+                );
 
                 // Create control buttons for VM
                 // Use the full prefixed ID for VM control
@@ -860,10 +1154,9 @@ export class DynamicResourceManager {
             }
 
             const vmPrefix = `vms.${name.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
-
             await this.stateManager.updateState(`${vmPrefix}.name`, name);
-            await this.stateManager.updateState(`${vmPrefix}.state`, toStringOrNull(v.state));
             await this.stateManager.updateState(`${vmPrefix}.uuid`, uuid);
+            await this.applyVmState(name, uuid, toStringOrNull(v.state));
         }
 
         // Sync with ObjectManager
@@ -882,6 +1175,645 @@ export class DynamicResourceManager {
         }
     }
 
+    /**
+     * Write the state of a known VM together with the states derived from it
+     * (`isRunning`, `lastStateChange`, `uptimeSeconds`). Used by the poll and by the
+     * ControlManager, which writes the states it observes while verifying a VM action.
+     *
+     * @param name - VM name
+     * @param uuid - VM uuid
+     * @param state - Current VM state
+     */
+    async applyVmState(name: string, uuid: string, state: string | null): Promise<void> {
+        if (!this.vmUuids.has(uuid)) {
+            return;
+        }
+
+        const vmPrefix = `vms.${name.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+        // Must run before `state` is overwritten, the stored value is compared after a restart
+        const since = await this.trackVmStateChange(uuid, vmPrefix, state);
+        const isRunning = state === 'RUNNING' || state === 'IDLE';
+
+        await this.stateManager.updateState(`${vmPrefix}.state`, state);
+        await this.stateManager.updateState(`${vmPrefix}.isRunning`, isRunning);
+        await this.stateManager.updateState(`${vmPrefix}.lastStateChange`, since);
+        await this.stateManager.updateState(
+            `${vmPrefix}.uptimeSeconds`,
+            !isRunning ? 0 : since === null ? null : Math.round((Date.now() - since) / 1000),
+        );
+    }
+
+    /**
+     * Remember when the state of a VM last changed. After an adapter restart the stored
+     * `lastStateChange` is kept if the VM is still in the stored state; otherwise the
+     * change time is unknown until the next observed change.
+     *
+     * @param uuid - VM uuid
+     * @param vmPrefix - State prefix of the VM
+     * @param state - Current VM state
+     * @returns Timestamp (ms) of the last state change or null if unknown
+     */
+    private async trackVmStateChange(uuid: string, vmPrefix: string, state: string | null): Promise<number | null> {
+        const known = this.vmStateSince.get(uuid);
+        if (known) {
+            if (known.state !== state) {
+                known.state = state;
+                known.since = Date.now();
+            }
+            return known.since;
+        }
+
+        const storedState = await this.adapter.getStateAsync(`${vmPrefix}.state`);
+        const storedSince = await this.adapter.getStateAsync(`${vmPrefix}.lastStateChange`);
+        const since = storedState?.val === state && typeof storedSince?.val === 'number' ? storedSince.val : null;
+        this.vmStateSince.set(uuid, { state, since });
+        return since;
+    }
+
+    /**
+     * Handle dynamic UPS state creation and updates
+     *
+     * @param data - Unraid data containing the `upsDevices` list
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async handleDynamicUpsDevices(data: Record<string, unknown>, selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('ups.devices')) {
+            return;
+        }
+
+        const devices = data.upsDevices;
+        if (!Array.isArray(devices)) {
+            return;
+        }
+
+        const upsIds = new Set<string>();
+        for (const device of devices) {
+            const resourceId = this.getUpsResourceId(device as Record<string, unknown>);
+            if (resourceId) {
+                upsIds.add(resourceId);
+            }
+        }
+
+        const needsUpdate =
+            !this.upsDevicesDetected ||
+            upsIds.size !== this.upsIds.size ||
+            ![...upsIds].every(id => this.upsIds.has(id));
+
+        if (needsUpdate) {
+            this.upsIds = upsIds;
+            this.upsDevicesDetected = true;
+
+            this.adapter.log.info(`Detected ${upsIds.size} UPS devices`);
+
+            await this.stateManager.writeState('ups.count', { type: 'number', role: 'value', unit: '' }, upsIds.size);
+
+            for (const resourceId of upsIds) {
+                await this.createUpsStates(`ups.${resourceId}`);
+            }
+        }
+
+        // Update UPS values
+        for (const device of devices) {
+            await this.updateUpsStates(device as Record<string, unknown>);
+        }
+
+        // Sync with ObjectManager
+        if (this.objectManager) {
+            const resourceMap = new Map<string, any>();
+            for (const device of devices) {
+                const d = device as Record<string, unknown>;
+                const resourceId = this.getUpsResourceId(d);
+                if (resourceId) {
+                    resourceMap.set(resourceId, { id: d.id, name: d.name });
+                }
+            }
+            await this.objectManager.handleDynamicResources('ups', resourceMap);
+        }
+    }
+
+    /**
+     * Apply a single UPS device pushed via the `upsUpdates` subscription.
+     * Unknown devices are ignored; they are created by the next poll.
+     *
+     * @param device - UPS device from the subscription payload
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async applyUpsUpdate(device: Record<string, unknown>, selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('ups.devices') || !this.upsDevicesDetected) {
+            return;
+        }
+        await this.updateUpsStates(device);
+    }
+
+    /**
+     * Object id segment of a UPS (sanitized name, falling back to the API id)
+     *
+     * @param device - UPS device from the API
+     */
+    private getUpsResourceId(device: Record<string, unknown>): string | null {
+        const name = toStringOrNull(device.name) ?? toStringOrNull(device.id);
+        return name ? sanitizeResourceName(name) : null;
+    }
+
+    /**
+     * Create the state objects of one UPS
+     *
+     * @param upsPrefix - State prefix of the UPS (e.g. `ups.Back-UPS`)
+     */
+    private async createUpsStates(upsPrefix: string): Promise<void> {
+        await this.stateManager.writeState(`${upsPrefix}.name`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${upsPrefix}.model`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${upsPrefix}.status`, { type: 'string', role: 'indicator.status' }, null);
+        await this.stateManager.writeState(`${upsPrefix}.onBattery`, { type: 'boolean', role: 'indicator' }, null);
+        await this.stateManager.writeState(
+            `${upsPrefix}.battery.chargeLevel`,
+            { type: 'number', role: 'value.battery', unit: '%' },
+            null,
+        );
+        await this.stateManager.writeState(
+            `${upsPrefix}.battery.estimatedRuntime`,
+            { type: 'number', role: 'value.interval', unit: 's' },
+            null,
+        );
+        await this.stateManager.writeState(`${upsPrefix}.battery.health`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(
+            `${upsPrefix}.power.inputVoltage`,
+            { type: 'number', role: 'value.voltage', unit: 'V' },
+            null,
+        );
+        await this.stateManager.writeState(
+            `${upsPrefix}.power.outputVoltage`,
+            { type: 'number', role: 'value.voltage', unit: 'V' },
+            null,
+        );
+        await this.stateManager.writeState(
+            `${upsPrefix}.power.loadPercentage`,
+            { type: 'number', role: 'value.percent', unit: '%' },
+            null,
+        );
+        await this.stateManager.writeState(
+            `${upsPrefix}.power.nominalPower`,
+            { type: 'number', role: 'value.power', unit: 'W' },
+            null,
+        );
+        await this.stateManager.writeState(
+            `${upsPrefix}.power.currentPower`,
+            { type: 'number', role: 'value.power', unit: 'W' },
+            null,
+        );
+    }
+
+    /**
+     * Write the values of one UPS. Devices that are not (yet) known are skipped.
+     *
+     * @param device - UPS device from the API
+     */
+    private async updateUpsStates(device: Record<string, unknown>): Promise<void> {
+        const resourceId = this.getUpsResourceId(device);
+        if (!resourceId || !this.upsIds.has(resourceId)) {
+            return;
+        }
+
+        const upsPrefix = `ups.${resourceId}`;
+        const battery = (device.battery ?? {}) as Record<string, unknown>;
+        const power = (device.power ?? {}) as Record<string, unknown>;
+
+        await this.stateManager.updateState(`${upsPrefix}.name`, toStringOrNull(device.name));
+        await this.stateManager.updateState(`${upsPrefix}.model`, toStringOrNull(device.model));
+        await this.stateManager.updateState(`${upsPrefix}.status`, toStringOrNull(device.status));
+        await this.stateManager.updateState(`${upsPrefix}.onBattery`, isUpsOnBattery(device.status));
+        await this.stateManager.updateState(`${upsPrefix}.battery.chargeLevel`, toNumberOrNull(battery.chargeLevel));
+        await this.stateManager.updateState(
+            `${upsPrefix}.battery.estimatedRuntime`,
+            toNumberOrNull(battery.estimatedRuntime),
+        );
+        await this.stateManager.updateState(`${upsPrefix}.battery.health`, toStringOrNull(battery.health));
+        await this.stateManager.updateState(`${upsPrefix}.power.inputVoltage`, toNumberOrNull(power.inputVoltage));
+        await this.stateManager.updateState(`${upsPrefix}.power.outputVoltage`, toNumberOrNull(power.outputVoltage));
+        await this.stateManager.updateState(`${upsPrefix}.power.loadPercentage`, toNumberOrNull(power.loadPercentage));
+        await this.stateManager.updateState(`${upsPrefix}.power.nominalPower`, toNumberOrNull(power.nominalPower));
+        await this.stateManager.updateState(`${upsPrefix}.power.currentPower`, toNumberOrNull(power.currentPower));
+    }
+
+    /**
+     * Handle dynamic Docker network state creation and updates
+     *
+     * @param data - Unraid data containing `docker.networks`
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async handleDynamicDockerNetworks(data: Record<string, unknown>, selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('docker.networks')) {
+            return;
+        }
+
+        const networks = (data.docker as { networks?: unknown } | undefined)?.networks;
+        if (!Array.isArray(networks)) {
+            return;
+        }
+
+        const networkNames = new Set<string>();
+        for (const network of networks) {
+            const name = toStringOrNull((network as Record<string, unknown>).name);
+            if (name) {
+                networkNames.add(name);
+            }
+        }
+
+        const needsUpdate =
+            !this.dockerNetworksDetected ||
+            networkNames.size !== this.dockerNetworkNames.size ||
+            ![...networkNames].every(name => this.dockerNetworkNames.has(name));
+
+        if (needsUpdate) {
+            this.dockerNetworkNames = networkNames;
+            this.dockerNetworksDetected = true;
+
+            this.adapter.log.info(`Detected ${networkNames.size} Docker networks`);
+
+            await this.stateManager.writeState(
+                'docker.networks.count',
+                { type: 'number', role: 'value', unit: '' },
+                networkNames.size,
+            );
+
+            for (const name of networkNames) {
+                const networkPrefix = `docker.networks.${sanitizeResourceName(name)}`;
+                await this.stateManager.writeState(`${networkPrefix}.name`, { type: 'string', role: 'text' }, null);
+                await this.stateManager.writeState(`${networkPrefix}.driver`, { type: 'string', role: 'text' }, null);
+                await this.stateManager.writeState(`${networkPrefix}.scope`, { type: 'string', role: 'text' }, null);
+                await this.stateManager.writeState(
+                    `${networkPrefix}.internal`,
+                    { type: 'boolean', role: 'indicator' },
+                    null,
+                );
+                await this.stateManager.writeState(
+                    `${networkPrefix}.containerCount`,
+                    { type: 'number', role: 'value' },
+                    null,
+                );
+                await this.stateManager.writeState(
+                    `${networkPrefix}.containers`,
+                    { type: 'string', role: 'json' },
+                    null,
+                );
+            }
+        }
+
+        // Update network values
+        for (const network of networks) {
+            const n = network as Record<string, unknown>;
+            const name = toStringOrNull(n.name);
+            if (!name || !this.dockerNetworkNames.has(name)) {
+                continue;
+            }
+
+            // `containers` is the raw Docker map of container id -> endpoint ({ Name, IPv4Address, ... })
+            const endpoints =
+                n.containers && typeof n.containers === 'object'
+                    ? Object.values(n.containers as Record<string, Record<string, unknown> | null>)
+                    : [];
+            const attached = endpoints
+                .map(endpoint => toStringOrNull(endpoint?.Name))
+                .filter((containerName): containerName is string => !!containerName)
+                .sort((left, right) => left.localeCompare(right));
+
+            const networkPrefix = `docker.networks.${sanitizeResourceName(name)}`;
+            await this.stateManager.updateState(`${networkPrefix}.name`, name);
+            await this.stateManager.updateState(`${networkPrefix}.driver`, toStringOrNull(n.driver));
+            await this.stateManager.updateState(`${networkPrefix}.scope`, toStringOrNull(n.scope));
+            await this.stateManager.updateState(`${networkPrefix}.internal`, toBooleanOrNull(n.internal));
+            await this.stateManager.updateState(`${networkPrefix}.containerCount`, attached.length);
+            await this.stateManager.updateState(`${networkPrefix}.containers`, JSON.stringify(attached));
+        }
+
+        // Sync with ObjectManager
+        if (this.objectManager) {
+            const resourceMap = new Map<string, any>();
+            for (const name of this.dockerNetworkNames) {
+                resourceMap.set(sanitizeResourceName(name), { name });
+            }
+            await this.objectManager.handleDynamicResources('dockerNetwork', resourceMap);
+        }
+    }
+
+    /**
+     * Handle one channel per GPU below `info.hardware.gpus`, keyed by its PCI id
+     * (`typeid`). The complete list is also available as JSON in `info.hardware.devices.gpu`.
+     *
+     * @param data - Unraid data containing `info.devices.gpu`
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async handleDynamicGpus(data: Record<string, unknown>, selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('info.hardware')) {
+            return;
+        }
+
+        const gpus = (data.info as { devices?: { gpu?: unknown } | null } | undefined)?.devices?.gpu;
+        if (!Array.isArray(gpus)) {
+            return;
+        }
+
+        const gpuIds = new Set<string>();
+        for (const gpu of gpus) {
+            const g = gpu as Record<string, unknown>;
+            const id = toStringOrNull(g.typeid) ?? toStringOrNull(g.id);
+            if (id) {
+                gpuIds.add(sanitizeResourceName(id));
+            }
+        }
+
+        const needsUpdate =
+            !this.gpusDetected || gpuIds.size !== this.gpuIds.size || ![...gpuIds].every(id => this.gpuIds.has(id));
+
+        if (needsUpdate) {
+            this.gpuIds = gpuIds;
+            this.gpusDetected = true;
+
+            this.adapter.log.info(`Detected ${gpuIds.size} GPUs`);
+
+            for (const id of gpuIds) {
+                const gpuPrefix = `info.hardware.gpus.${id}`;
+                await this.stateManager.writeState(`${gpuPrefix}.type`, { type: 'string', role: 'text' }, null);
+                await this.stateManager.writeState(`${gpuPrefix}.typeid`, { type: 'string', role: 'text' }, null);
+                await this.stateManager.writeState(`${gpuPrefix}.vendorname`, { type: 'string', role: 'text' }, null);
+                await this.stateManager.writeState(`${gpuPrefix}.productid`, { type: 'string', role: 'text' }, null);
+                await this.stateManager.writeState(`${gpuPrefix}.class`, { type: 'string', role: 'text' }, null);
+                await this.stateManager.writeState(
+                    `${gpuPrefix}.blacklisted`,
+                    { type: 'boolean', role: 'indicator' },
+                    null,
+                );
+            }
+        }
+
+        // Update GPU values
+        for (const gpu of gpus) {
+            const g = gpu as Record<string, unknown>;
+            const id = toStringOrNull(g.typeid) ?? toStringOrNull(g.id);
+            if (!id || !this.gpuIds.has(sanitizeResourceName(id))) {
+                continue;
+            }
+
+            const gpuPrefix = `info.hardware.gpus.${sanitizeResourceName(id)}`;
+            await this.stateManager.updateState(`${gpuPrefix}.type`, toStringOrNull(g.type));
+            await this.stateManager.updateState(`${gpuPrefix}.typeid`, toStringOrNull(g.typeid));
+            await this.stateManager.updateState(`${gpuPrefix}.vendorname`, toStringOrNull(g.vendorname));
+            await this.stateManager.updateState(`${gpuPrefix}.productid`, toStringOrNull(g.productid));
+            await this.stateManager.updateState(`${gpuPrefix}.class`, toStringOrNull(g.class));
+            await this.stateManager.updateState(`${gpuPrefix}.blacklisted`, toBooleanOrNull(g.blacklisted));
+        }
+
+        // Sync with ObjectManager
+        if (this.objectManager) {
+            const resourceMap = new Map<string, any>();
+            for (const id of this.gpuIds) {
+                resourceMap.set(id, { id });
+            }
+            await this.objectManager.handleDynamicResources('gpu', resourceMap);
+        }
+    }
+
+    /**
+     * Handle the Docker organizer folders: one channel per folder with member counts
+     * and start/stop buttons. The flat `docker.containers` tree is not affected.
+     *
+     * @param data - Unraid data containing `docker.organizer`
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async handleDynamicDockerFolders(data: Record<string, unknown>, selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('docker.folders')) {
+            return;
+        }
+
+        const organizer = (data.docker as { organizer?: unknown } | undefined)?.organizer;
+        if (!organizer) {
+            return;
+        }
+
+        // Folder names are not unique across nesting levels, so duplicates get a numeric suffix
+        const folders = resolveDockerFolders(organizer);
+        const resourceIds = new Map<string, string>();
+        const usedIds = new Set<string>();
+        for (const folder of folders) {
+            let resourceId = sanitizeResourceName(folder.name) || 'folder';
+            if (usedIds.has(resourceId)) {
+                let counter = 2;
+                while (usedIds.has(`${resourceId}_${counter}`)) {
+                    counter++;
+                }
+                resourceId = `${resourceId}_${counter}`;
+            }
+            usedIds.add(resourceId);
+            resourceIds.set(folder.id, resourceId);
+        }
+
+        const needsUpdate =
+            !this.dockerFoldersDetected ||
+            resourceIds.size !== this.dockerFolderResourceIds.size ||
+            [...resourceIds].some(([id, resourceId]) => this.dockerFolderResourceIds.get(id) !== resourceId);
+
+        if (needsUpdate) {
+            this.dockerFolderResourceIds = resourceIds;
+            this.dockerFoldersDetected = true;
+
+            this.adapter.log.info(`Detected ${resourceIds.size} Docker folders`);
+
+            for (const [folderId, resourceId] of resourceIds) {
+                const folderPrefix = `docker.folders.${resourceId}`;
+                await this.stateManager.writeState(`${folderPrefix}.name`, { type: 'string', role: 'text' }, null);
+                await this.stateManager.writeState(
+                    `${folderPrefix}.containerCount`,
+                    { type: 'number', role: 'value' },
+                    null,
+                );
+                await this.stateManager.writeState(
+                    `${folderPrefix}.runningCount`,
+                    { type: 'number', role: 'value' },
+                    null,
+                );
+                await this.stateManager.writeState(
+                    `${folderPrefix}.stoppedCount`,
+                    { type: 'number', role: 'value' },
+                    null,
+                );
+                await this.stateManager.writeState(
+                    `${folderPrefix}.containers`,
+                    { type: 'string', role: 'json' },
+                    null,
+                );
+                await this.createControlButtons(folderPrefix, DOCKER_FOLDER_CONTROL_STATES, 'dockerFolder', folderId);
+            }
+        }
+
+        // Update folder values
+        for (const folder of folders) {
+            const resourceId = this.dockerFolderResourceIds.get(folder.id);
+            if (!resourceId) {
+                continue;
+            }
+            const folderPrefix = `docker.folders.${resourceId}`;
+            await this.stateManager.updateState(`${folderPrefix}.name`, folder.name);
+            await this.stateManager.updateState(`${folderPrefix}.containerCount`, folder.containers.length);
+            await this.stateManager.updateState(
+                `${folderPrefix}.runningCount`,
+                folder.containers.filter(container => container.state === 'RUNNING').length,
+            );
+            await this.stateManager.updateState(
+                `${folderPrefix}.stoppedCount`,
+                folder.containers.filter(container => container.state === 'EXITED').length,
+            );
+            await this.stateManager.updateState(
+                `${folderPrefix}.containers`,
+                JSON.stringify(folder.containers.map(container => container.name)),
+            );
+        }
+
+        // Sync with ObjectManager
+        if (this.objectManager) {
+            const resourceMap = new Map<string, any>();
+            for (const [folderId, resourceId] of this.dockerFolderResourceIds) {
+                resourceMap.set(resourceId, { id: folderId });
+            }
+            await this.objectManager.handleDynamicResources('dockerFolder', resourceMap);
+        }
+    }
+
+    /**
+     * Handle the physical disk inventory from the top-level `disks` query.
+     * Covers every disk attached to the server (array, pools and unassigned devices)
+     * and keys the states by serial number so they survive slot and device changes.
+     *
+     * @param data - Unraid data containing the `disks` list
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async handleDynamicPhysicalDisks(data: Record<string, unknown>, selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('disks.physical')) {
+            return;
+        }
+
+        const disks = data.disks;
+        if (!Array.isArray(disks)) {
+            return;
+        }
+
+        const serials = new Set<string>();
+        for (const disk of disks) {
+            const serial = this.getPhysicalDiskResourceId(disk as Record<string, unknown>);
+            if (serial) {
+                serials.add(serial);
+            }
+        }
+
+        const needsUpdate =
+            !this.physicalDisksDetected ||
+            serials.size !== this.physicalDiskSerials.size ||
+            ![...serials].every(serial => this.physicalDiskSerials.has(serial));
+
+        if (needsUpdate) {
+            this.physicalDiskSerials = serials;
+            this.physicalDisksDetected = true;
+
+            this.adapter.log.info(`Detected ${serials.size} physical disks`);
+
+            await this.stateManager.writeState(
+                'disks.physical.count',
+                { type: 'number', role: 'value', unit: '' },
+                serials.size,
+            );
+
+            for (const serial of serials) {
+                await this.createPhysicalDiskStates(`disks.physical.${serial}`);
+            }
+        }
+
+        // Update physical disk values
+        for (const disk of disks) {
+            const d = disk as Record<string, unknown>;
+            const serial = this.getPhysicalDiskResourceId(d);
+            if (!serial || !this.physicalDiskSerials.has(serial)) {
+                continue;
+            }
+
+            const diskPrefix = `disks.physical.${serial}`;
+            const partitions = Array.isArray(d.partitions) ? (d.partitions as Record<string, unknown>[]) : [];
+
+            await this.stateManager.updateState(`${diskPrefix}.name`, toStringOrNull(d.name));
+            await this.stateManager.updateState(`${diskPrefix}.vendor`, toStringOrNull(d.vendor));
+            await this.stateManager.updateState(`${diskPrefix}.serialNum`, toStringOrNull(d.serialNum));
+            await this.stateManager.updateState(`${diskPrefix}.device`, toStringOrNull(d.device));
+            await this.stateManager.updateState(`${diskPrefix}.type`, toStringOrNull(d.type));
+            await this.stateManager.updateState(`${diskPrefix}.firmwareRevision`, toStringOrNull(d.firmwareRevision));
+            await this.stateManager.updateState(`${diskPrefix}.interfaceType`, toStringOrNull(d.interfaceType));
+            await this.stateManager.updateState(`${diskPrefix}.smartStatus`, toStringOrNull(d.smartStatus));
+            await this.stateManager.updateState(`${diskPrefix}.temperature`, toNumberOrNull(d.temperature));
+            await this.stateManager.updateState(`${diskPrefix}.isSpinning`, toBooleanOrNull(d.isSpinning));
+            await this.stateManager.updateState(`${diskPrefix}.sizeGb`, bytesToGigabytes(d.size));
+            await this.stateManager.updateState(`${diskPrefix}.partitionCount`, partitions.length);
+            await this.stateManager.updateState(
+                `${diskPrefix}.partitions`,
+                JSON.stringify(
+                    partitions.map(partition => ({
+                        name: toStringOrNull(partition.name),
+                        fsType: toStringOrNull(partition.fsType),
+                        sizeGb: bytesToGigabytes(partition.size),
+                    })),
+                ),
+            );
+        }
+
+        // Sync with ObjectManager
+        if (this.objectManager) {
+            const resourceMap = new Map<string, any>();
+            for (const serial of this.physicalDiskSerials) {
+                resourceMap.set(serial, { serial });
+            }
+            await this.objectManager.handleDynamicResources('physicalDisk', resourceMap);
+        }
+    }
+
+    /**
+     * Object id segment of a physical disk (sanitized serial number, falling back to the API id)
+     *
+     * @param disk - Disk from the API
+     */
+    private getPhysicalDiskResourceId(disk: Record<string, unknown>): string | null {
+        const serial = toStringOrNull(disk.serialNum)?.trim() || toStringOrNull(disk.id);
+        return serial ? sanitizeResourceName(serial) : null;
+    }
+
+    /**
+     * Create the state objects of one physical disk
+     *
+     * @param diskPrefix - State prefix of the disk (e.g. `disks.physical.WD-WCC4E1234567`)
+     */
+    private async createPhysicalDiskStates(diskPrefix: string): Promise<void> {
+        await this.stateManager.writeState(`${diskPrefix}.name`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.vendor`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.serialNum`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.device`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.type`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(
+            `${diskPrefix}.firmwareRevision`,
+            { type: 'string', role: 'info.firmware' },
+            null,
+        );
+        await this.stateManager.writeState(`${diskPrefix}.interfaceType`, { type: 'string', role: 'text' }, null);
+        await this.stateManager.writeState(
+            `${diskPrefix}.smartStatus`,
+            { type: 'string', role: 'indicator.status' },
+            null,
+        );
+        await this.stateManager.writeState(
+            `${diskPrefix}.temperature`,
+            { type: 'number', role: 'value.temperature', unit: '°C' },
+            null,
+        );
+        await this.stateManager.writeState(`${diskPrefix}.isSpinning`, { type: 'boolean', role: 'indicator' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.sizeGb`, { type: 'number', role: 'value', unit: 'GB' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.partitionCount`, { type: 'number', role: 'value' }, null);
+        await this.stateManager.writeState(`${diskPrefix}.partitions`, { type: 'string', role: 'json' }, null);
+    }
+
     /**
      * Handle dynamic mainboard temperature sensors.
      * Filters sensors to CHIPSET/AMBIENT/VRM/GPU/MOTHERBOARD/CUSTOM types
@@ -984,7 +1916,6 @@ export class DynamicResourceManager {
                 );
                 await this.stateManager.writeState(`${prefix}.tempStatus`, { type: 'string', role: 'text' }, null);
                 // Remove sub-states from earlier pre-release iterations (type/tempWarning/tempCritical).
-                // Idempotent: delObjectAsync on a non-existing id just resolves without error.
                 for (const obsolete of ['type', 'tempWarning', 'tempCritical']) {
                     try {
                         await this.adapter.delObjectAsync(`${prefix}.${obsolete}`);
@@ -1014,6 +1945,119 @@ export class DynamicResourceManager {
         }
     }
 
+    /**
+     * Create the parity check control buttons once the domain is selected.
+     * Skipped on servers that do not expose the `parityCheck` mutations.
+     *
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async handleParityCheckControls(selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('array.parityCheck') || this.parityCheckControlsCreated) {
+            return;
+        }
+
+        if (!this.capabilities.parityCheckControl) {
+            this.adapter.log.debug('Parity check mutations not available on this server, skipping control buttons');
+            this.parityCheckControlsCreated = true;
+            return;
+        }
+
+        await this.createControlButtons('array.parityCheck', PARITY_CHECK_CONTROL_STATES, 'array', 'parityCheck');
+
+        this.parityCheckControlsCreated = true;
+    }
+
+    /**
+     * Create (or remove) the array start/stop buttons below `array.commands`.
+     * The buttons are opt-in via the adapter settings because stopping the array
+     * stops every container and VM; when the option is off, leftovers are deleted.
+     *
+     * @param selectedDomains - Set of selected domain IDs
+     * @param enabled - Whether array control is enabled in the adapter settings
+     */
+    async handleArrayControls(selectedDomains: Set<string>, enabled: boolean): Promise<void> {
+        if (!selectedDomains.has('array.status') || this.arrayControlsHandled) {
+            return;
+        }
+        this.arrayControlsHandled = true;
+
+        if (!enabled || !this.capabilities.arrayStateControl) {
+            if (enabled) {
+                this.adapter.log.debug(
+                    'Array setState mutation not available on this server, skipping control buttons',
+                );
+            }
+            for (const id of [...ARRAY_CONTROL_STATES.map(control => `array.${control.id}`), 'array.controlArmed']) {
+                try {
+                    await this.adapter.delObjectAsync(id);
+                } catch {
+                    // State did not exist — no cleanup needed.
+                }
+            }
+            return;
+        }
+
+        await this.stateManager.writeState('array.controlArmed', { type: 'boolean', role: 'indicator' }, false);
+        await this.createControlButtons('array', ARRAY_CONTROL_STATES, 'array', 'array');
+    }
+
+    /**
+     * Create the notification management controls below `notifications.commands`
+     * once any notifications domain is selected.
+     *
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async handleNotificationControls(selectedDomains: Set<string>): Promise<void> {
+        if (
+            (!selectedDomains.has('notifications.overview') &&
+                !selectedDomains.has('notifications.warningsAndAlerts')) ||
+            this.notificationControlsCreated
+        ) {
+            return;
+        }
+
+        // `notify` needs createNotification, all other buttons the archive/unread mutations
+        const controls = NOTIFICATION_CONTROL_STATES.filter(control =>
+            control.id === 'commands.notify'
+                ? this.capabilities.notificationCreate
+                : this.capabilities.notificationControl,
+        );
+        if (!controls.length) {
+            this.adapter.log.debug('Notification mutations not available on this server, skipping controls');
+            this.notificationControlsCreated = true;
+            return;
+        }
+
+        await this.createControlButtons('notifications', controls, 'notification', 'notifications');
+
+        this.notificationControlsCreated = true;
+    }
+
+    /**
+     * Create the bulk update controls below `docker.updates` together with the
+     * `lastResult` state that reports the outcome per container.
+     *
+     * @param selectedDomains - Set of selected domain IDs
+     */
+    async handleDockerUpdateControls(selectedDomains: Set<string>): Promise<void> {
+        if (!selectedDomains.has('docker.updates') || this.dockerUpdateControlsCreated) {
+            return;
+        }
+        this.dockerUpdateControlsCreated = true;
+
+        const controls = [
+            ...(this.capabilities.dockerBulkUpdate ? DOCKER_BULK_UPDATE_CONTROL_STATES : []),
+            ...(this.capabilities.dockerRefreshDigests ? DOCKER_REFRESH_DIGESTS_CONTROL_STATES : []),
+        ];
+        if (controls.length === 0) {
+            this.adapter.log.debug('Bulk Docker update mutations not available on this server, skipping controls');
+            return;
+        }
+
+        await this.stateManager.writeState('docker.updates.lastResult', { type: 'string', role: 'json' }, null);
+        await this.createControlButtons('docker.updates', controls, 'dockerUpdates', 'updates');
+    }
+
     private async createDiskStates(prefix: string, disks: unknown[]): Promise<void> {
         for (let i = 0; i < disks.length; i++) {
             const disk = disks[i] as Record<string, unknown>;
@@ -1138,6 +2182,17 @@ export class DynamicResourceManager {
         }
     }
 
+    /**
+     * Per-container buttons: the Docker commands plus the log fetch and removal buttons if supported
+     */
+    private getDockerControlStates(): StateMapping[] {
+        return [
+            ...DOCKER_CONTROL_STATES,
+            ...(this.capabilities.dockerLogs ? DOCKER_LOG_CONTROL_STATES : []),
+            ...(this.capabilities.dockerRemove ? DOCKER_REMOVE_CONTROL_STATES : []),
+        ];
+    }
+
     /**
      * Refresh the `native` metadata of existing Docker control buttons without
      * touching the current state value. Used when a container's Docker ID changes
@@ -1147,7 +2202,7 @@ export class DynamicResourceManager {
      * @param containerId - The updated container ID for mutations
      */
     private async refreshDockerControlMetadata(containerPrefix: string, containerId: string): Promise<void> {
-        for (const control of DOCKER_CONTROL_STATES) {
+        for (const control of this.getDockerControlStates()) {
             const stateId = `${containerPrefix}.${control.id}`;
             const translations = (stateTranslations as Record<string, any>)[control.id];
             const name: ioBroker.StringOrTranslated = translations || control.common.name;
@@ -1185,7 +2240,7 @@ export class DynamicResourceManager {
             return;
         }
 
-        for (const control of DOCKER_CONTROL_STATES) {
+        for (const control of this.getDockerControlStates()) {
             const stateId = `${containerPrefix}.${control.id}`;
 
             // Get translation object or use control.common.name as fallback
@@ -1215,6 +2270,60 @@ export class DynamicResourceManager {
             // Initialize button state to false
             await this.adapter.setStateAsync(stateId, false, true);
         }
+
+        // Progress and outcome of composite actions such as restart
+        await this.stateManager.writeState(
+            `${containerPrefix}.commands.lastResult`,
+            { type: 'string', role: 'json' },
+            null,
+        );
+    }
+
+    /**
+     * Create control buttons for a static (non per-resource) target such as the array.
+     * Button names prefer a translation for the full state id over the generic `commands.*` one.
+     *
+     * @param prefix - State prefix the `commands.*` buttons are created below
+     * @param controls - Control state mappings to create
+     * @param resourceType - Resource type stored in `native` for ControlManager dispatch
+     * @param resourceId - Resource id stored in `native`
+     */
+    private async createControlButtons(
+        prefix: string,
+        controls: readonly StateMapping[],
+        resourceType: string,
+        resourceId: string,
+    ): Promise<void> {
+        for (const control of controls) {
+            const stateId = `${prefix}.${control.id}`;
+
+            const translations =
+                (stateTranslations as Record<string, any>)[stateId] ??
+                (stateTranslations as Record<string, any>)[control.id];
+            const name: ioBroker.StringOrTranslated = translations || control.common.name;
+
+            await this.adapter.setObjectAsync(stateId, {
+                type: 'state',
+                common: {
+                    type: control.common.type,
+                    role: control.common.role,
+                    read: control.common.read ?? true,
+                    write: control.common.write ?? true,
+                    def: control.common.def ?? false,
+                    name,
+                    desc: control.common.desc,
+                    custom: {},
+                } as ioBroker.StateCommon,
+                native: {
+                    resourceType,
+                    resourceId,
+                    action: control.id.split('.').pop(),
+                },
+            });
+
+            // Initialize buttons to false and id inputs to ''
+            await this.adapter.setStateAsync(stateId, control.common.def ?? false, true);
+        }
     }
 
     /**
@@ -1259,5 +2368,8 @@ export class DynamicResourceManager {
             // Initialize button state to false
             await this.adapter.setStateAsync(stateId, false, true);
         }
+
+        // Progress and outcome of composite actions such as shutdownAndWait
+        await this.stateManager.writeState(`${vmPrefix}.commands.lastResult`, { type: 'string', role: 'json' }, null);
     }
 }
@@ -0,0 +1,324 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { LogManager } from './log-manager';
+import type { UnraidApolloClient } from '../apollo-client';
+import type { Capabilities } from '../shared/capabilities';
+import { allCapabilitiesEnabled } from '../shared/capabilities';
+import type { AdapterInterface } from '../types/adapter-types';
+import type { StateManager } from './state-manager';
+
+interface Fixture {
+    manager: LogManager;
+    adapter: {
+        namespace: string;
+        log: { debug: sinon.SinonStub; info: sinon.SinonStub; warn: sinon.SinonStub; error: sinon.SinonStub };
+        getObjectAsync: sinon.SinonStub;
+        setStateAsync: sinon.SinonStub;
+        getAdapterObjectsAsync: sinon.SinonStub;
+        delObjectAsync: sinon.SinonStub;
+    };
+    apolloClient: { query: sinon.SinonStub };
+    /** Values written through the StateManager, by state id */
+    written: Map<string, unknown>;
+}
+
+/**
+ * Create a LogManager with stubbed adapter and Apollo client
+ *
+ * @param capabilities - Capabilities to use (all enabled by default)
+ */
+function createFixture(capabilities: Capabilities = allCapabilitiesEnabled()): Fixture {
+    const adapter = {
+        namespace: 'unraid.0',
+        log: { debug: sinon.stub(), info: sinon.stub(), warn: sinon.stub(), error: sinon.stub() },
+        getObjectAsync: sinon.stub().resolves({ native: { resourceId: 'server:plex-id' } }),
+        setStateAsync: sinon.stub().resolves(),
+        getAdapterObjectsAsync: sinon.stub().resolves({}),
+        delObjectAsync: sinon.stub().resolves(),
+    };
+    const apolloClient = { query: sinon.stub() };
+    const written = new Map<string, unknown>();
+    const record = (id: string, ...rest: unknown[]): Promise<void> => {
+        written.set(id, rest[rest.length - 1]);
+        return Promise.resolve();
+    };
+    const stateManager = { writeState: sinon.stub().callsFake(record), updateState: sinon.stub().callsFake(record) };
+    const manager = new LogManager(
+        adapter as unknown as AdapterInterface,
+        apolloClient as unknown as UnraidApolloClient,
+        stateManager as unknown as StateManager,
+        capabilities,
+    );
+    return { manager, adapter, apolloClient, written };
+}
+
+/**
+ * Container logs response as returned by the API
+ *
+ * @param cursor - Cursor for the next fetch
+ * @param messages - Returned log messages
+ */
+function logsResponse(cursor: string | null, ...messages: string[]): Record<string, unknown> {
+    return {
+        docker: {
+            logs: {
+                cursor,
+                lines: messages.map((message, index) => ({ timestamp: `2026-10-19T10:00:0${index}Z`, message })),
+            },
+        },
+    };
+}
+
+/**
+ * Let the Apollo client serve `logFile` queries from an in-memory file
+ *
+ * @param fixture - Test fixture
+ * @param file - Current lines of the file; mutate it to append or rotate
+ */
+function serveLogFile(fixture: Fixture, file: string[]): void {
+    fixture.apolloClient.query.callsFake((_query: string, variables: Record<string, number | null>) => {
+        const count = variables.lines ?? file.length;
+        const start = variables.startLine === null ? Math.max(file.length - count, 0) : variables.startLine - 1;
+        const lines = file.slice(start, start + count);
+        return Promise.resolve({
+            logFile: {
+                content: lines.length ? `${lines.join('\n')}\n` : '',
+                totalLines: file.length,
+                startLine: start + 1,
+            },
+        });
+    });
+}
+
+describe('LogManager => watched log files', () => {
+    const patterns = [
+        { name: 'ioError', pattern: 'I/O error' },
+        { name: 'oom', pattern: 'out of memory' },
+    ];
+
+    it('should show the current tail on startup without counting old matches', async () => {
+        const fixture = createFixture();
+        const file = Array.from({ length: 30 }, (_, index) => `line ${index + 1}: I/O error`);
+        serveLogFile(fixture, file);
+
+        await fixture.manager.initializeLogFileWatches(['/var/log/syslog'], patterns);
+
+        expect(fixture.written.get('logs.files.var_log_syslog.path')).to.equal('/var/log/syslog');
+        expect(fixture.written.get('logs.files.var_log_syslog.totalLines')).to.equal(30);
+        expect((fixture.written.get('logs.files.var_log_syslog.lastLines') as string).split('\n')).to.have.length(20);
+        expect(fixture.written.get('logs.files.var_log_syslog.matches.ioError.count')).to.equal(0);
+    });
+
+    it('should count matches in lines appended since the last read', async () => {
+        const fixture = createFixture();
+        const file = ['boot'];
+        serveLogFile(fixture, file);
+        await fixture.manager.initializeLogFileWatches(['/var/log/syslog'], patterns);
+
+        file.push('kernel: I/O error on sdb', 'ok', 'kernel: i/o ERROR on sdc');
+        await fixture.manager.pollLogFiles();
+        await fixture.manager.pollLogFiles();
+
+        expect(fixture.written.get('logs.files.var_log_syslog.matches.ioError.count')).to.equal(2);
+        expect(fixture.written.get('logs.files.var_log_syslog.matches.ioError.lastLine')).to.equal(
+            'kernel: i/o ERROR on sdc',
+        );
+        expect(fixture.written.get('logs.files.var_log_syslog.matches.oom.count')).to.equal(0);
+        expect(fixture.apolloClient.query.secondCall.args[1]).to.deep.equal({
+            path: '/var/log/syslog',
+            lines: 500,
+            startLine: 2,
+        });
+    });
+
+    it('should read large appends in chunks until it is caught up', async () => {
+        const fixture = createFixture();
+        const file: string[] = [];
+        serveLogFile(fixture, file);
+        await fixture.manager.initializeLogFileWatches(['/var/log/syslog'], patterns);
+
+        file.push(...Array.from({ length: 1200 }, () => 'out of memory'));
+        await fixture.manager.pollLogFiles();
+
+        expect(fixture.apolloClient.query.args.slice(1).map(args => args[1].startLine)).to.deep.equal([1, 501, 1001]);
+        expect(fixture.written.get('logs.files.var_log_syslog.matches.oom.count')).to.equal(1200);
+    });
+
+    it('should start from the beginning after the file was rotated', async () => {
+        const fixture = createFixture();
+        const file = ['old 1', 'old 2', 'old 3'];
+        serveLogFile(fixture, file);
+        await fixture.manager.initializeLogFileWatches(['/var/log/syslog'], patterns);
+
+        file.splice(0, file.length, 'I/O error after rotation');
+        await fixture.manager.pollLogFiles();
+
+        expect(fixture.written.get('logs.files.var_log_syslog.matches.ioError.count')).to.equal(1);
+        expect(fixture.written.get('logs.files.var_log_syslog.totalLines')).to.equal(1);
+        expect(fixture.written.get('logs.files.var_log_syslog.lastLines')).to.equal(
+            'old 1\nold 2\nold 3\nI/O error after rotation',
+        );
+    });
+
+    it('should not count lines twice when poll and subscription read at the same time', async () => {
+        const fixture = createFixture();
+        const file = ['boot'];
+        serveLogFile(fixture, file);
+        await fixture.manager.initializeLogFileWatches(['/var/log/syslog'], patterns);
+
+        file.push('I/O error');
+        await Promise.all([fixture.manager.pollLogFiles(), fixture.manager.readNewLogLines('/var/log/syslog')]);
+
+        expect(fixture.written.get('logs.files.var_log_syslog.matches.ioError.count')).to.equal(1);
+    });
+
+    it('should skip invalid and duplicate patterns', async () => {
+        const fixture = createFixture();
+        serveLogFile(fixture, []);
+
+        await fixture.manager.initializeLogFileWatches(
+            ['/var/log/syslog'],
+            [...patterns, { name: 'broken', pattern: '(' }, { name: 'ioError', pattern: 'other' }],
+        );
+
+        expect(fixture.adapter.log.warn).to.have.been.calledTwice;
+        expect(fixture.written.has('logs.files.var_log_syslog.matches.broken.count')).to.equal(false);
+    });
+
+    it('should remove objects of files and patterns that are no longer watched', async () => {
+        const fixture = createFixture();
+        serveLogFile(fixture, []);
+        fixture.adapter.getAdapterObjectsAsync.resolves({
+            'unraid.0.logs.files.var_log_syslog': { type: 'channel' },
+            'unraid.0.logs.files.var_log_syslog.matches.ioError': { type: 'channel' },
+            'unraid.0.logs.files.var_log_syslog.matches.removed': { type: 'channel' },
+            'unraid.0.logs.files.var_log_old': { type: 'channel' },
+            'unraid.0.logs.files.var_log_old.totalLines': { type: 'state' },
+        });
+
+        await fixture.manager.initializeLogFileWatches(['/var/log/syslog'], patterns);
+
+        expect(fixture.adapter.delObjectAsync.args.map(args => args[0])).to.deep.equal([
+            'logs.files.var_log_syslog.matches.removed',
+            'logs.files.var_log_old',
+        ]);
+    });
+
+    it('should not watch anything when the server has no logFile query', async () => {
+        const fixture = createFixture({ ...allCapabilitiesEnabled(), logFiles: false });
+
+        await fixture.manager.initializeLogFileWatches(['/var/log/syslog'], patterns);
+
+        expect(fixture.manager.watchedLogFilePaths).to.deep.equal([]);
+        expect(fixture.apolloClient.query).to.not.have.been.called;
+    });
+});
+
+describe('LogManager => container logs', () => {
+    it('should continue from the cursor of the previous fetch', async () => {
+        const fixture = createFixture();
+        fixture.apolloClient.query.onFirstCall().resolves(logsResponse('cursor-1', 'started'));
+        fixture.apolloClient.query.onSecondCall().resolves(logsResponse('cursor-2', 'ready'));
+
+        const first = await fixture.manager.getContainerLogs({ name: 'plex' });
+        const second = await fixture.manager.getContainerLogs({ name: 'plex' });
+
+        expect(fixture.apolloClient.query.firstCall.args[1]).to.deep.equal({
+            id: 'server:plex-id',
+            since: null,
+            tail: 50,
+        });
+        expect(fixture.apolloClient.query.secondCall.args[1]).to.include({ since: 'cursor-1' });
+        expect(first).to.deep.equal({
+            name: 'plex',
+            lines: [{ timestamp: '2026-10-19T10:00:00Z', message: 'started' }],
+            cursor: 'cursor-1',
+        });
+        expect(second.cursor).to.equal('cursor-2');
+    });
+
+    it('should prefer an explicit since over the stored cursor', async () => {
+        const fixture = createFixture();
+        fixture.apolloClient.query.resolves(logsResponse('cursor-1', 'line'));
+
+        await fixture.manager.getContainerLogs({ name: 'plex' });
+        await fixture.manager.getContainerLogs({ name: 'plex', since: '2026-10-19T09:00:00Z', tail: 5 });
+
+        expect(fixture.apolloClient.query.secondCall.args[1]).to.include({ since: '2026-10-19T09:00:00Z', tail: 5 });
+    });
+
+    it('should keep the cursor and lastLines when nothing new was logged', async () => {
+        const fixture = createFixture();
+        fixture.apolloClient.query.onFirstCall().resolves(logsResponse('cursor-1', 'line'));
+        fixture.apolloClient.query.onSecondCall().resolves(logsResponse(null));
+        fixture.apolloClient.query.onThirdCall().resolves(logsResponse(null));
+
+        await fixture.manager.getContainerLogs({ name: 'plex' });
+        await fixture.manager.getContainerLogs({ name: 'plex' });
+        await fixture.manager.getContainerLogs({ name: 'plex' });
+
+        expect(fixture.apolloClient.query.thirdCall.args[1]).to.include({ since: 'cursor-1' });
+        expect(fixture.adapter.setStateAsync).to.have.been.calledOnceWith(
+            'docker.containers.plex.logs.lastLines',
+            '2026-10-19T10:00:00Z line',
+            true,
+        );
+    });
+
+    it('should keep separate cursors per container', async () => {
+        const fixture = createFixture();
+        fixture.apolloClient.query.onFirstCall().resolves(logsResponse('plex-cursor', 'line'));
+        fixture.apolloClient.query.onSecondCall().resolves(logsResponse('nginx-cursor', 'line'));
+
+        await fixture.manager.getContainerLogs({ name: 'plex' });
+        await fixture.manager.getContainerLogs({ name: '/nginx' });
+
+        expect(fixture.apolloClient.query.secondCall.args[1]).to.include({ since: null });
+        expect(fixture.adapter.getObjectAsync.secondCall.args[0]).to.equal('docker.containers.nginx.logs.fetch');
+    });
+
+    it('should reject invalid requests before querying', async () => {
+        const fixture = createFixture();
+
+        await expect(fixture.manager.getContainerLogs({})).to.be.rejectedWith('"name" is required');
+        await expect(fixture.manager.getContainerLogs({ name: 'plex', tail: 0 })).to.be.rejectedWith(
+            '"tail" must be a positive integer',
+        );
+        await expect(fixture.manager.getContainerLogs({ name: 'plex', since: 'yesterday' })).to.be.rejectedWith(
+            '"since" must be an ISO date string',
+        );
+        expect(fixture.apolloClient.query).to.not.have.been.called;
+    });
+
+    it('should reject unknown containers and unsupported servers', async () => {
+        const fixture = createFixture();
+        fixture.adapter.getObjectAsync.resolves(null);
+
+        await expect(fixture.manager.getContainerLogs({ name: 'ghost' })).to.be.rejectedWith(
+            'Unknown container "ghost"',
+        );
+        await expect(
+            createFixture({ ...allCapabilitiesEnabled(), dockerLogs: false }).manager.getContainerLogs({
+                name: 'plex',
+            }),
+        ).to.be.rejectedWith('not supported');
+    });
+
+    it('should fetch via the button and release it', async () => {
+        const fixture = createFixture();
+        fixture.apolloClient.query.resolves(logsResponse('cursor-1', 'line'));
+
+        const handled = await fixture.manager.handleStateChange('unraid.0.docker.containers.plex.logs.fetch', {
+            val: true,
+            ack: false,
+        } as ioBroker.State);
+
+        expect(handled).to.equal(true);
+        expect(fixture.adapter.getObjectAsync).to.have.been.calledWith('unraid.0.docker.containers.plex.logs.fetch');
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith('docker.containers.plex.logs.lastLines');
+        expect(fixture.adapter.setStateAsync).to.have.been.calledWith('unraid.0.docker.containers.plex.logs.fetch', {
+            val: false,
+            ack: true,
+        });
+    });
+});
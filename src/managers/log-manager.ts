@@ -0,0 +1,431 @@
+import type { AdapterInterface } from '../types/adapter-types';
+import type { UnraidApolloClient } from '../apollo-client';
+import type { Capabilities } from '../shared/capabilities';
+import type { LogFilePattern } from '../config/adapter-config';
+import type { StateManager } from './state-manager';
+import { DOCKER_CONTAINER_LOGS_QUERY, LOG_FILE_QUERY } from '../graphql/queries';
+import { sanitizeResourceName, toNumberOrNull, toStringOrNull } from '../utils/data-transformers';
+
+/** Number of log lines requested when the caller does not specify `tail` */
+const DEFAULT_LOG_TAIL = 50;
+
+/** Number of lines mirrored to `logs.files.<file>.lastLines` */
+const LOG_FILE_TAIL = 20;
+
+/** Maximum number of new lines read from a watched log file per request */
+const LOG_FILE_READ_CHUNK = 500;
+
+/**
+ * Read position and match counters of a watched log file
+ */
+interface WatchedLogFile {
+    path: string;
+    prefix: string;
+    /** Number of lines already read (null until the first read) */
+    position: number | null;
+    tail: string[];
+    matchCounts: Map<string, number>;
+    /** Serializes reads so poll and subscription never read the same lines twice */
+    reading: Promise<void>;
+}
+
+/**
+ * A single container log line
+ */
+export interface ContainerLogLine {
+    /** Timestamp reported by Docker (ISO date) */
+    timestamp: string;
+    /** Log message without timestamp */
+    message: string;
+}
+
+/**
+ * Result of a container log fetch
+ */
+export interface ContainerLogResult {
+    /** Container name */
+    name: string;
+    /** Returned log lines, oldest first */
+    lines: ContainerLogLine[];
+    /** Cursor to continue from on the next fetch */
+    cursor: string | null;
+}
+
+/**
+ * Fetches Docker container logs on demand (via the `logs.fetch` button or sendTo)
+ * and follows the watched Unraid log files configured in the adapter settings.
+ * Keeps the returned cursor per container so repeated fetches only return new lines.
+ */
+export class LogManager {
+    /** Last cursor returned by the server, keyed by container object id prefix */
+    private readonly containerCursors = new Map<string, string>();
+
+    private readonly watchedFiles = new Map<string, WatchedLogFile>();
+    private patterns: Array<{ name: string; regex: RegExp }> = [];
+
+    /**
+     * Create a new log manager
+     *
+     * @param adapter - Adapter interface for logging and state management
+     * @param apolloClient - Apollo client for GraphQL queries
+     * @param stateManager - State manager for creating the log file states
+     * @param capabilities - Detected Unraid API capabilities
+     */
+    constructor(
+        private readonly adapter: AdapterInterface,
+        private readonly apolloClient: UnraidApolloClient,
+        private readonly stateManager: StateManager,
+        private readonly capabilities: Capabilities,
+    ) {}
+
+    /**
+     * Paths of the watched log files
+     */
+    get watchedLogFilePaths(): string[] {
+        return [...this.watchedFiles.keys()];
+    }
+
+    /**
+     * Create the states of the watched log files and read their current tail.
+     * Existing lines are not matched, so counters only include lines logged after startup.
+     *
+     * @param paths - Absolute paths of the log files to watch
+     * @param patterns - Named patterns counted in new lines
+     */
+    async initializeLogFileWatches(paths: readonly string[], patterns: readonly LogFilePattern[]): Promise<void> {
+        if (!this.capabilities.logFiles) {
+            this.adapter.log.info('Unraid API does not offer logFile, watched log files are not available.');
+            return;
+        }
+
+        this.patterns = [];
+        const patternNames = new Set<string>();
+        for (const { name, pattern } of patterns) {
+            const sanitizedName = sanitizeResourceName(name);
+            if (patternNames.has(sanitizedName)) {
+                this.adapter.log.warn(`Log file pattern "${name}" is defined twice, ignoring the second one`);
+                continue;
+            }
+            try {
+                this.patterns.push({ name: sanitizedName, regex: new RegExp(pattern, 'i') });
+                patternNames.add(sanitizedName);
+            } catch (error) {
+                this.adapter.log.warn(`Invalid log file pattern "${name}": ${this.describeError(error)}`);
+            }
+        }
+
+        for (const path of paths) {
+            const file: WatchedLogFile = {
+                path,
+                prefix: `logs.files.${sanitizeResourceName(path.replace(/^\/+/, ''))}`,
+                position: null,
+                tail: [],
+                matchCounts: new Map(this.patterns.map(({ name }) => [name, 0])),
+                reading: Promise.resolve(),
+            };
+            this.watchedFiles.set(path, file);
+            await this.createLogFileStates(file);
+        }
+
+        await this.removeUnwatchedLogFiles();
+
+        for (const path of this.watchedFiles.keys()) {
+            await this.readNewLogLines(path);
+        }
+    }
+
+    /**
+     * Read new lines of all watched log files (called on every poll cycle)
+     */
+    async pollLogFiles(): Promise<void> {
+        for (const path of this.watchedFiles.keys()) {
+            await this.readNewLogLines(path);
+        }
+    }
+
+    /**
+     * Read the lines appended to a watched log file since the last read,
+     * count pattern matches and refresh `lastLines`
+     *
+     * @param path - Path of the watched log file
+     */
+    async readNewLogLines(path: string): Promise<void> {
+        const file = this.watchedFiles.get(path);
+        if (!file) {
+            return;
+        }
+        file.reading = file.reading.then(() =>
+            this.readLogFile(file).catch(error => {
+                this.adapter.log.warn(`Failed to read log file ${path}: ${this.describeError(error)}`);
+            }),
+        );
+        await file.reading;
+    }
+
+    /**
+     * Read new lines of one log file in chunks until it is caught up
+     *
+     * @param file - Watched log file
+     */
+    private async readLogFile(file: WatchedLogFile): Promise<void> {
+        const newLines: string[] = [];
+        let totalLines = 0;
+
+        for (;;) {
+            const initial = file.position === null;
+            const data = await this.apolloClient.query<{
+                logFile?: { content?: unknown; totalLines?: unknown; startLine?: unknown } | null;
+            }>(LOG_FILE_QUERY, {
+                path: file.path,
+                lines: initial ? LOG_FILE_TAIL : LOG_FILE_READ_CHUNK,
+                startLine: initial ? null : (file.position ?? 0) + 1,
+            });
+
+            totalLines = toNumberOrNull(data?.logFile?.totalLines) ?? 0;
+            if (file.position !== null && totalLines < file.position) {
+                // File was rotated or truncated: continue from its beginning
+                this.adapter.log.debug(`Log file ${file.path} was rotated, reading from the start`);
+                file.position = 0;
+                continue;
+            }
+
+            const lines = this.splitLines(data?.logFile?.content);
+            if (initial) {
+                file.tail = lines.slice(-LOG_FILE_TAIL);
+                file.position = totalLines;
+                break;
+            }
+
+            newLines.push(...lines);
+            file.position = (file.position ?? 0) + lines.length;
+            if (lines.length === 0 || file.position >= totalLines) {
+                break;
+            }
+        }
+
+        for (const line of newLines) {
+            for (const { name, regex } of this.patterns) {
+                if (regex.test(line)) {
+                    file.matchCounts.set(name, (file.matchCounts.get(name) ?? 0) + 1);
+                    await this.stateManager.updateState(`${file.prefix}.matches.${name}.lastLine`, line);
+                }
+            }
+        }
+        if (newLines.length > 0) {
+            file.tail = [...file.tail, ...newLines].slice(-LOG_FILE_TAIL);
+        }
+
+        await this.stateManager.updateState(`${file.prefix}.totalLines`, totalLines);
+        await this.stateManager.updateState(`${file.prefix}.lastLines`, file.tail.join('\n'));
+        for (const [name, count] of file.matchCounts) {
+            await this.stateManager.updateState(`${file.prefix}.matches.${name}.count`, count);
+        }
+    }
+
+    /**
+     * Create the state objects of one watched log file
+     *
+     * @param file - Watched log file
+     */
+    private async createLogFileStates(file: WatchedLogFile): Promise<void> {
+        await this.stateManager.writeState(`${file.prefix}.path`, { type: 'string', role: 'text' }, file.path);
+        await this.stateManager.writeState(`${file.prefix}.totalLines`, { type: 'number', role: 'value' }, null);
+        await this.stateManager.writeState(`${file.prefix}.lastLines`, { type: 'string', role: 'text' }, null);
+        for (const { name } of this.patterns) {
+            // Counters start at 0 on every adapter start
+            await this.stateManager.writeState(
+                `${file.prefix}.matches.${name}.count`,
+                { type: 'number', role: 'value' },
+                0,
+            );
+            await this.stateManager.writeState(
+                `${file.prefix}.matches.${name}.lastLine`,
+                { type: 'string', role: 'text' },
+                null,
+            );
+        }
+    }
+
+    /**
+     * Remove objects of log files and patterns that are no longer configured
+     */
+    private async removeUnwatchedLogFiles(): Promise<void> {
+        const keep = new Set<string>();
+        for (const file of this.watchedFiles.values()) {
+            keep.add(file.prefix);
+            keep.add(`${file.prefix}.matches`);
+            for (const { name } of this.patterns) {
+                keep.add(`${file.prefix}.matches.${name}`);
+            }
+        }
+
+        const objects = await this.adapter.getAdapterObjectsAsync();
+        const namespacePrefix = `${this.adapter.namespace}.`;
+        for (const [fullId, obj] of Object.entries(objects)) {
+            if (obj.type !== 'channel' || !fullId.startsWith(`${namespacePrefix}logs.files.`)) {
+                continue;
+            }
+            const relativeId = fullId.slice(namespacePrefix.length);
+            const parts = relativeId.split('.');
+            const isFileChannel = parts.length === 3;
+            const isPatternChannel = parts.length === 5 && parts[3] === 'matches';
+            if ((isFileChannel || isPatternChannel) && !keep.has(relativeId)) {
+                await this.adapter.delObjectAsync(relativeId, { recursive: true });
+                this.adapter.log.debug(`Removed unwatched log file object ${relativeId}`);
+            }
+        }
+    }
+
+    /**
+     * Split log file content into lines (without the trailing empty line)
+     *
+     * @param content - Raw content returned by the API
+     */
+    private splitLines(content: unknown): string[] {
+        const text = toStringOrNull(content);
+        if (!text) {
+            return [];
+        }
+        const lines = text.split(/\r?\n/);
+        if (lines[lines.length - 1] === '') {
+            lines.pop();
+        }
+        return lines;
+    }
+
+    /**
+     * Handle presses of the per-container `logs.fetch` button
+     *
+     * @param id - State ID that changed
+     * @param state - New state value
+     * @returns True if the state change was a log fetch request
+     */
+    async handleStateChange(id: string, state: ioBroker.State | null | undefined): Promise<boolean> {
+        if (!id.endsWith('.logs.fetch')) {
+            return false;
+        }
+        if (!state || state.ack || !state.val) {
+            return true;
+        }
+
+        // unraid.0.docker.containers.<name>.logs.fetch -> docker.containers.<name>
+        const containerPrefix = id
+            .slice(this.adapter.namespace.length + 1)
+            .split('.')
+            .slice(0, -2)
+            .join('.');
+
+        try {
+            const obj = await this.adapter.getObjectAsync(id);
+            const containerId = toStringOrNull(obj?.native?.resourceId);
+            if (!containerId) {
+                throw new Error(`No container id stored for ${id}`);
+            }
+            const result = await this.fetchLogs(containerPrefix, containerId, {});
+            this.adapter.log.info(`Fetched ${result.lines.length} log lines for ${containerPrefix}`);
+        } catch (error) {
+            this.adapter.log.error(`Failed to fetch container logs: ${this.describeError(error)}`);
+        }
+
+        await this.adapter.setStateAsync(id, { val: false, ack: true });
+        return true;
+    }
+
+    /**
+     * Fetch log lines of a container by name (sendTo `getContainerLogs`)
+     *
+     * @param message - Message payload `{name, tail?, since?}`
+     * @returns Fetched lines with timestamps and the new cursor
+     */
+    async getContainerLogs(message: unknown): Promise<ContainerLogResult> {
+        if (!this.capabilities.dockerLogs) {
+            throw new Error('Container logs are not supported by this Unraid server');
+        }
+        if (!message || typeof message !== 'object') {
+            throw new Error('Message must be an object with at least a "name" property');
+        }
+
+        const input = message as Record<string, unknown>;
+        const name = toStringOrNull(input.name)?.replace(/^\//, '');
+        if (!name) {
+            throw new Error('"name" is required');
+        }
+
+        const tail = input.tail === undefined ? undefined : toNumberOrNull(input.tail);
+        if (tail !== undefined && (tail === null || !Number.isInteger(tail) || tail <= 0)) {
+            throw new Error('"tail" must be a positive integer');
+        }
+        const since = input.since === undefined ? undefined : toStringOrNull(input.since);
+        if (since !== undefined && (since === null || Number.isNaN(Date.parse(since)))) {
+            throw new Error('"since" must be an ISO date string');
+        }
+
+        const containerPrefix = `docker.containers.${sanitizeResourceName(name)}`;
+        const obj = await this.adapter.getObjectAsync(`${containerPrefix}.logs.fetch`);
+        const containerId = toStringOrNull(obj?.native?.resourceId);
+        if (!containerId) {
+            throw new Error(`Unknown container "${name}" (is the docker.containers domain enabled?)`);
+        }
+
+        const result = await this.fetchLogs(containerPrefix, containerId, { tail, since });
+        return { ...result, name };
+    }
+
+    /**
+     * Query the log lines, remember the cursor and mirror new lines to `logs.lastLines`
+     *
+     * @param containerPrefix - Object id prefix of the container
+     * @param containerId - Docker container id
+     * @param options - Explicit `tail`/`since`; without `since` the stored cursor is used
+     * @param options.tail - Maximum number of lines to return
+     * @param options.since - Only return lines after this timestamp
+     */
+    private async fetchLogs(
+        containerPrefix: string,
+        containerId: string,
+        options: { tail?: number; since?: string },
+    ): Promise<ContainerLogResult> {
+        const since = options.since ?? this.containerCursors.get(containerPrefix);
+        const data = await this.apolloClient.query<{
+            docker?: { logs?: { lines?: Array<Record<string, unknown>>; cursor?: unknown } | null } | null;
+        }>(DOCKER_CONTAINER_LOGS_QUERY, {
+            id: containerId,
+            since: since ?? null,
+            tail: options.tail ?? DEFAULT_LOG_TAIL,
+        });
+
+        const logs = data?.docker?.logs;
+        const lines: ContainerLogLine[] = (logs?.lines ?? []).map(line => ({
+            timestamp: toStringOrNull(line.timestamp) ?? '',
+            message: toStringOrNull(line.message) ?? '',
+        }));
+        const cursor = toStringOrNull(logs?.cursor);
+        if (cursor) {
+            this.containerCursors.set(containerPrefix, cursor);
+        }
+
+        // Keep the previous value when nothing new was logged, so history only records new output
+        if (lines.length > 0) {
+            await this.adapter.setStateAsync(
+                `${containerPrefix}.logs.lastLines`,
+                lines.map(line => `${line.timestamp} ${line.message}`).join('\n'),
+                true,
+            );
+        }
+
+        return { name: containerPrefix.split('.').pop() ?? '', lines, cursor };
+    }
+
+    /**
+     * Convert error to string for logging
+     *
+     * @param error - Error to describe
+     * @returns Error message string
+     */
+    private describeError(error: unknown): string {
+        if (error instanceof Error) {
+            return error.message;
+        }
+        return String(error);
+    }
+}
@@ -1,14 +1,29 @@
 import type { AdapterInterface } from '../types/adapter-types';
 import type { DomainDefinition, DomainId } from '../shared/unraid-domains';
-import { domainDefinitionById } from '../shared/unraid-domains';
+import { DOCKER_CONTAINER_FIELD_GROUPS, domainDefinitionById } from '../shared/unraid-domains';
 import type { StateManager } from './state-manager';
 
+/** Dynamic resource kinds whose per-resource objects are tracked and cleaned up */
+export type DynamicResourceType =
+    | 'cpu'
+    | 'cpuPackage'
+    | 'disk'
+    | 'physicalDisk'
+    | 'docker'
+    | 'dockerNetwork'
+    | 'dockerFolder'
+    | 'share'
+    | 'vm'
+    | 'temperature'
+    | 'ups'
+    | 'gpu';
+
 interface TrackedObject {
     id: string;
     type: 'channel' | 'state';
     lastSeen: number;
     isStatic: boolean;
-    resourceType?: 'cpu' | 'cpuPackage' | 'disk' | 'docker' | 'share' | 'vm' | 'temperature';
+    resourceType?: DynamicResourceType;
     resourceId?: string;
 }
 
@@ -20,6 +35,8 @@ export class ObjectManager {
     private trackedObjects = new Map<string, TrackedObject>();
     private currentPollTimestamp = 0;
     private staticObjectIds = new Set<string>();
+    // Selected definitions; may differ from the static ones (e.g. extra `system.vars` fields)
+    private selectedDefinitionById = new Map<DomainId, DomainDefinition>();
 
     /**
      * Create a new ObjectManager
@@ -39,6 +56,7 @@ export class ObjectManager {
      */
     async initialize(definitions: readonly DomainDefinition[]): Promise<void> {
         this.staticObjectIds = this.collectStaticObjectIds(definitions);
+        this.selectedDefinitionById = new Map(definitions.map(definition => [definition.id, definition]));
         this.currentPollTimestamp = Date.now();
 
         // Track all existing objects
@@ -63,7 +81,12 @@ export class ObjectManager {
      * @param resourceType - The resource type (optional)
      * @param resourceId - The resource ID (optional)
      */
-    markObjectSeen(id: string, type: 'channel' | 'state', resourceType?: string, resourceId?: string): void {
+    markObjectSeen(
+        id: string,
+        type: 'channel' | 'state',
+        resourceType?: DynamicResourceType,
+        resourceId?: string,
+    ): void {
         const existing = this.trackedObjects.get(id);
         if (existing) {
             existing.lastSeen = this.currentPollTimestamp;
@@ -73,7 +96,7 @@ export class ObjectManager {
                 type,
                 lastSeen: this.currentPollTimestamp,
                 isStatic: this.staticObjectIds.has(id),
-                resourceType: resourceType as any,
+                resourceType,
                 resourceId,
             });
         }
@@ -85,12 +108,7 @@ export class ObjectManager {
      * @param resourceType - The type of resource being handled
      * @param currentResources - Map of current resources found in poll
      */
-    async handleDynamicResources(
-        resourceType: 'cpu' | 'cpuPackage' | 'disk' | 'docker' | 'share' | 'vm' | 'temperature',
-        currentResources: Map<string, any>,
-    ): Promise<void> {
-        const resourcePrefix = this.getResourcePrefix(resourceType);
-
+    async handleDynamicResources(resourceType: DynamicResourceType, currentResources: Map<string, any>): Promise<void> {
         // Track which resource IDs we've seen
         const seenResourceIds = new Set<string>();
 
@@ -109,25 +127,36 @@ export class ObjectManager {
 
         // Remove objects for resources that no longer exist
         for (const resourceId of toRemove) {
-            const objectPrefix = `${resourcePrefix}.${resourceId}`;
             this.adapter.log.info(`Resource ${resourceType}/${resourceId} no longer exists, removing objects`);
+            await this.removeDynamicResource(resourceType, resourceId);
+        }
+    }
 
-            try {
-                await this.adapter.delObjectAsync(objectPrefix, { recursive: true });
-
-                // Remove from tracking
-                const toDelete: string[] = [];
-                for (const [id, obj] of this.trackedObjects) {
-                    if (obj.resourceType === resourceType && obj.resourceId === resourceId) {
-                        toDelete.push(id);
-                    }
-                }
-                for (const id of toDelete) {
-                    this.trackedObjects.delete(id);
+    /**
+     * Immediately remove the object subtree of a single dynamic resource, e.g. after
+     * a container was removed on the server, instead of waiting for the next poll diff.
+     *
+     * @param resourceType - The type of resource
+     * @param resourceId - Resource id below the type prefix (e.g. the sanitized container name)
+     */
+    async removeDynamicResource(resourceType: DynamicResourceType, resourceId: string): Promise<void> {
+        const objectPrefix = `${this.getResourcePrefix(resourceType)}.${resourceId}`;
+
+        try {
+            await this.adapter.delObjectAsync(objectPrefix, { recursive: true });
+
+            // Remove from tracking
+            const toDelete: string[] = [];
+            for (const [id, obj] of this.trackedObjects) {
+                if (obj.resourceType === resourceType && obj.resourceId === resourceId) {
+                    toDelete.push(id);
                 }
-            } catch (error) {
-                this.adapter.log.warn(`Failed to remove objects for ${objectPrefix}: ${this.describeError(error)}`);
             }
+            for (const id of toDelete) {
+                this.trackedObjects.delete(id);
+            }
+        } catch (error) {
+            this.adapter.log.warn(`Failed to remove objects for ${objectPrefix}: ${this.describeError(error)}`);
         }
     }
 
@@ -141,14 +170,24 @@ export class ObjectManager {
      */
     private static readonly DOMAIN_DYNAMIC_PREFIXES: Partial<Record<DomainId, readonly string[]>> = {
         'metrics.cpu': ['metrics.cpu.cores', 'metrics.cpu.packages'],
+        'array.status': ['array.commands', 'array.controlArmed'],
         'array.disks': ['array.disks'],
         'array.parities': ['array.parities'],
         'array.caches': ['array.caches'],
+        'array.parityCheck': ['array.parityCheck.commands'],
         'docker.containers': ['docker.containers'],
         'docker.updates': ['docker.updates'],
         'shares.list': ['shares'],
         'vms.list': ['vms'],
         'metrics.temperature.board': ['metrics.temperature.board'],
+        'notifications.overview': ['notifications.commands'],
+        'notifications.warningsAndAlerts': ['notifications.commands'],
+        'ups.devices': ['ups'],
+        'disks.physical': ['disks.physical'],
+        'docker.networks': ['docker.networks'],
+        'docker.folders': ['docker.folders'],
+        'logs.files': ['logs.files'],
+        'info.hardware': ['info.hardware.gpus'],
     };
 
     /**
@@ -183,7 +222,7 @@ export class ObjectManager {
         };
 
         for (const id of selectedDomains) {
-            const definition = domainDefinitionById.get(id);
+            const definition = this.selectedDefinitionById.get(id) ?? domainDefinitionById.get(id);
             if (definition) {
                 addWithAncestors(definition.id);
                 for (const state of definition.states) {
@@ -200,6 +239,14 @@ export class ObjectManager {
             }
         }
 
+        // Optional container field groups share the docker.containers prefix,
+        // so their states are removed explicitly when the group is deselected
+        const deselectedContainerFields = new Set(
+            DOCKER_CONTAINER_FIELD_GROUPS.filter(group => !selectedDomains.has(group.domain)).flatMap(group =>
+                group.states.map(state => state.id),
+            ),
+        );
+
         let removed = 0;
         let kept = 0;
         for (const fullId of Object.keys(objects)) {
@@ -208,7 +255,13 @@ export class ObjectManager {
                 continue;
             }
 
-            if (this.isAllowed(relativeId, allowedExactIds, allowedDynamicPrefixes)) {
+            const parts = relativeId.split('.');
+            const isDeselectedContainerField =
+                parts.length === 4 &&
+                relativeId.startsWith('docker.containers.') &&
+                deselectedContainerFields.has(parts[3]);
+
+            if (!isDeselectedContainerField && this.isAllowed(relativeId, allowedExactIds, allowedDynamicPrefixes)) {
                 kept += 1;
                 continue;
             }
@@ -318,6 +371,14 @@ export class ObjectManager {
                 // Extract the container name
                 newName = parts[2];
                 checkedCount++;
+            } else if (relativeId.startsWith('docker.networks.') && parts.length === 3) {
+                // Extract the network name
+                newName = parts[2];
+                checkedCount++;
+            } else if (relativeId.startsWith('docker.folders.') && parts.length === 3) {
+                // Extract the folder name
+                newName = parts[2];
+                checkedCount++;
             } else if (relativeId.startsWith('shares.') && parts.length === 2) {
                 // Extract the share name
                 newName = parts[1];
@@ -326,6 +387,14 @@ export class ObjectManager {
                 // Extract the VM name
                 newName = parts[1];
                 checkedCount++;
+            } else if (relativeId.startsWith('disks.physical.') && parts.length === 3) {
+                // Extract the disk serial number
+                newName = parts[2];
+                checkedCount++;
+            } else if (relativeId.startsWith('ups.') && parts.length === 2) {
+                // Extract the UPS name
+                newName = parts[1];
+                checkedCount++;
             } else if (relativeId.startsWith('array.disks.') && parts.length === 3) {
                 newName = `Disk ${parts[2]}`;
                 checkedCount++;
@@ -376,9 +445,7 @@ export class ObjectManager {
         return null;
     }
 
-    private getResourcePrefix(
-        resourceType: 'cpu' | 'cpuPackage' | 'disk' | 'docker' | 'share' | 'vm' | 'temperature',
-    ): string {
+    private getResourcePrefix(resourceType: DynamicResourceType): string {
         switch (resourceType) {
             case 'cpu':
                 return 'metrics.cpu.cores';
@@ -388,12 +455,22 @@ export class ObjectManager {
                 return 'array.disks';
             case 'docker':
                 return 'docker.containers';
+            case 'dockerNetwork':
+                return 'docker.networks';
+            case 'dockerFolder':
+                return 'docker.folders';
             case 'share':
                 return 'shares';
             case 'vm':
                 return 'vms';
             case 'temperature':
                 return 'metrics.temperature.board';
+            case 'ups':
+                return 'ups';
+            case 'physicalDisk':
+                return 'disks.physical';
+            case 'gpu':
+                return 'info.hardware.gpus';
         }
     }
 
@@ -135,6 +135,25 @@ export class PollingManager {
             pause: 'dockerPause',
             unpause: 'dockerUnpause',
             updateContainer: 'dockerUpdate',
+            logFiles: 'logFiles',
+            webUiUrl: 'dockerTemplateLinks',
+            iconUrl: 'dockerTemplateLinks',
+            projectUrl: 'dockerTemplateLinks',
+            supportUrl: 'dockerTemplateLinks',
+            lanIpPorts: 'dockerLanIpPorts',
+            sizeRw: 'dockerContainerSizes',
+            sizeLog: 'dockerContainerSizes',
+            autoStartOrder: 'dockerAutoStartOrder',
+            autoStartWait: 'dockerAutoStartOrder',
+            isOrphaned: 'dockerTemplateStatus',
+            isRebuildReady: 'dockerTemplateStatus',
+            ports: 'dockerContainerNetworking',
+            networkSettings: 'dockerContainerNetworking',
+            mounts: 'dockerContainerMounts',
+            imageId: 'dockerContainerImageInfo',
+            created: 'dockerContainerImageInfo',
+            organizer: 'dockerOrganizer',
+            portConflicts: 'dockerPortConflicts',
         };
         for (const [field, capability] of Object.entries(fieldToCapability)) {
             const regex = new RegExp(`Cannot query field "${field}"`);
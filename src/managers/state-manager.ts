@@ -93,6 +93,13 @@ export class StateManager {
             const isDynamicResource =
                 id.startsWith('docker.containers.') ||
                 id.startsWith('vms.') ||
+                id.startsWith('ups.') ||
+                id.startsWith('disks.physical.') ||
+                id.startsWith('docker.networks.') ||
+                id.startsWith('docker.folders.') ||
+                id.startsWith('logs.files.') ||
+                id.startsWith('system.vars.') ||
+                id.startsWith('info.hardware.gpus.') ||
                 id.startsWith('shares.') ||
                 id.startsWith('array.disks.') ||
                 id.startsWith('array.parities.') ||
@@ -120,7 +127,7 @@ export class StateManager {
                 type: common.type,
                 unit: common.unit,
                 read: true,
-                write: false,
+                write: common.write ?? false,
             },
             native: {},
         });
@@ -239,12 +246,43 @@ export class StateManager {
             if (channelId.startsWith('docker.containers.') && index === 3) {
                 // Extract the container name (last part of the channelId)
                 name = parts[2];
+            } else if (channelId.startsWith('docker.containers.') && index === 4) {
+                // Sub-channels (commands, stats) share one translation for all containers
+                name = (stateTranslations as Record<string, any>)[`docker.containers.${parts[3]}`] || parts[3];
+            } else if (channelId.startsWith('docker.networks.') && index === 3) {
+                // Extract the network name
+                name = parts[2];
+            } else if (channelId.startsWith('docker.folders.') && index === 3) {
+                // Extract the folder name
+                name = parts[2];
+            } else if (channelId.startsWith('docker.folders.') && index === 4) {
+                name = (stateTranslations as Record<string, any>)[`docker.folders.${parts[3]}`] || parts[3];
+            } else if (channelId.startsWith('info.hardware.gpus.') && index === 4) {
+                // Extract the GPU PCI id
+                name = parts[3];
             } else if (channelId.startsWith('shares.') && index === 2) {
                 // Extract the share name
                 name = parts[1];
             } else if (channelId.startsWith('vms.') && index === 2) {
                 // Extract the VM name
                 name = parts[1];
+            } else if (channelId.startsWith('disks.physical.') && index === 3) {
+                // Extract the disk serial number
+                name = parts[2];
+            } else if (channelId.startsWith('logs.files.') && index === 3) {
+                // Extract the log file id (path with separators replaced)
+                name = parts[2];
+            } else if (channelId.startsWith('logs.files.') && index === 4) {
+                name = (stateTranslations as Record<string, any>)[`logs.files.${parts[3]}`] || parts[3];
+            } else if (channelId.startsWith('logs.files.') && index === 5) {
+                // Extract the pattern name
+                name = parts[4];
+            } else if (channelId.startsWith('ups.') && index === 2) {
+                // Extract the UPS name
+                name = parts[1];
+            } else if (channelId.startsWith('ups.') && index === 3) {
+                // battery/power sub-channels share one translation for all UPS devices
+                name = (stateTranslations as Record<string, any>)[`ups.${parts[2]}`] || parts[2];
             } else if (channelId.startsWith('array.disks.') && index === 3) {
                 // For array disks, show "Disk X" or parity/cache name
                 name = `Disk ${parts[2]}`;
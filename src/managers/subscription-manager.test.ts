@@ -0,0 +1,131 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import { SubscriptionManager } from './subscription-manager';
+import type { UnraidApolloClient } from '../apollo-client';
+import type { AdapterInterface } from '../types/adapter-types';
+
+interface Observer {
+    next: (result: { data?: Record<string, unknown>; error?: Error }) => void;
+    error: (error: unknown) => void;
+    complete: () => void;
+}
+
+describe('SubscriptionManager', () => {
+    let clock: sinon.SinonFakeTimers;
+    let adapter: {
+        log: { debug: sinon.SinonStub; info: sinon.SinonStub; warn: sinon.SinonStub; error: sinon.SinonStub };
+        setTimeout: sinon.SinonSpy;
+        clearTimeout: sinon.SinonSpy;
+    };
+    let observers: Observer[];
+    let unsubscribes: sinon.SinonStub[];
+    let apolloClient: { subscribe: sinon.SinonStub };
+    let manager: SubscriptionManager;
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers({ now: Date.now() });
+        adapter = {
+            log: { debug: sinon.stub(), info: sinon.stub(), warn: sinon.stub(), error: sinon.stub() },
+            setTimeout: sinon.spy((callback: () => void, ms: number) => setTimeout(callback, ms)),
+            clearTimeout: sinon.spy((timer: NodeJS.Timeout) => clearTimeout(timer)),
+        };
+        observers = [];
+        unsubscribes = [];
+        apolloClient = {
+            subscribe: sinon.stub().callsFake(() => ({
+                subscribe: (observer: Observer) => {
+                    observers.push(observer);
+                    const unsubscribe = sinon.stub();
+                    unsubscribes.push(unsubscribe);
+                    return { unsubscribe };
+                },
+            })),
+        };
+        manager = new SubscriptionManager(
+            adapter as unknown as AdapterInterface,
+            apolloClient as unknown as UnraidApolloClient,
+        );
+    });
+
+    afterEach(() => {
+        manager.stop();
+        clock.restore();
+    });
+
+    it('should pass every payload to the handler', async () => {
+        const onData = sinon.stub().resolves();
+        manager.subscribe('test', 'subscription { test }', onData);
+
+        observers[0].next({ data: { test: 1 } });
+        observers[0].next({ data: { test: 2 } });
+        await Promise.resolve();
+
+        expect(onData.args).to.deep.equal([[{ test: 1 }], [{ test: 2 }]]);
+    });
+
+    it('should subscribe only once per name', () => {
+        manager.subscribe('test', 'subscription { test }', sinon.stub().resolves());
+        manager.subscribe('test', 'subscription { test }', sinon.stub().resolves());
+
+        expect(apolloClient.subscribe).to.have.been.calledOnce;
+    });
+
+    it('should resubscribe with exponential backoff after errors', () => {
+        manager.subscribe('test', 'subscription { test }', sinon.stub().resolves());
+
+        observers[0].error(new Error('socket closed'));
+        expect(unsubscribes[0]).to.have.been.calledOnce;
+        clock.tick(4_999);
+        expect(apolloClient.subscribe).to.have.been.calledOnce;
+        clock.tick(1);
+        expect(apolloClient.subscribe).to.have.been.calledTwice;
+
+        observers[1].complete();
+        clock.tick(9_999);
+        expect(apolloClient.subscribe).to.have.been.calledTwice;
+        clock.tick(1);
+        expect(apolloClient.subscribe).to.have.been.calledThrice;
+    });
+
+    it('should reset the backoff once data arrives again', () => {
+        manager.subscribe('test', 'subscription { test }', sinon.stub().resolves());
+
+        observers[0].error(new Error('socket closed'));
+        clock.tick(5_000);
+        observers[1].next({ data: { test: 1 } });
+        observers[1].error(new Error('socket closed'));
+        clock.tick(5_000);
+
+        expect(apolloClient.subscribe).to.have.been.calledThrice;
+    });
+
+    it('should schedule only one resubscribe for repeated failures', () => {
+        manager.subscribe('test', 'subscription { test }', sinon.stub().resolves());
+
+        observers[0].next({ error: new Error('bad payload') });
+        observers[0].error(new Error('socket closed'));
+
+        expect(adapter.setTimeout).to.have.been.calledOnce;
+    });
+
+    it('should cancel pending resubscribes on stop', () => {
+        manager.subscribe('test', 'subscription { test }', sinon.stub().resolves());
+        observers[0].error(new Error('socket closed'));
+
+        manager.stop();
+        clock.tick(60_000);
+
+        expect(apolloClient.subscribe).to.have.been.calledOnce;
+        expect(clock.countTimers()).to.equal(0);
+    });
+
+    it('should keep the subscription when the handler fails', async () => {
+        manager.subscribe('test', 'subscription { test }', sinon.stub().rejects(new Error('write failed')));
+
+        observers[0].next({ data: { test: 1 } });
+        await clock.tickAsync(0);
+
+        expect(adapter.log.warn).to.have.been.calledOnce;
+        expect(unsubscribes[0]).to.not.have.been.called;
+    });
+});
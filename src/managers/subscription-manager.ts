@@ -0,0 +1,176 @@
+import type { AdapterInterface } from '../types/adapter-types';
+import type { UnraidApolloClient } from '../apollo-client';
+
+/**
+ * First resubscribe delay after a subscription dropped
+ */
+const RESUBSCRIBE_INITIAL_DELAY_MS = 5_000;
+/**
+ * Upper bound for the exponential resubscribe backoff
+ */
+const RESUBSCRIBE_MAX_DELAY_MS = 5 * 60_000;
+
+interface ActiveSubscription {
+    name: string;
+    query: string;
+    variables?: Record<string, unknown>;
+    onData: (data: Record<string, unknown>) => Promise<void>;
+    handle?: { unsubscribe(): void };
+    retryTimer?: ioBroker.Timeout;
+    retryDelayMs: number;
+}
+
+/**
+ * Manages GraphQL subscriptions over the WebSocket link.
+ * Every subscription is automatically re-established with exponential backoff
+ * when the server completes it or the connection drops.
+ */
+export class SubscriptionManager {
+    private readonly subscriptions = new Map<string, ActiveSubscription>();
+    private stopRequested = false;
+
+    /**
+     * Create a new subscription manager
+     *
+     * @param adapter - Adapter interface for logging and timers
+     * @param apolloClient - Apollo client for GraphQL subscriptions
+     */
+    constructor(
+        private readonly adapter: AdapterInterface,
+        private readonly apolloClient: UnraidApolloClient,
+    ) {}
+
+    /**
+     * Start a subscription and keep it alive until {@link stop} is called.
+     *
+     * @param name - Unique name used for logging and deduplication
+     * @param query - GraphQL subscription document
+     * @param onData - Callback for every received payload
+     * @param variables - Optional variables for the subscription document
+     */
+    subscribe(
+        name: string,
+        query: string,
+        onData: (data: Record<string, unknown>) => Promise<void>,
+        variables?: Record<string, unknown>,
+    ): void {
+        if (this.stopRequested || this.subscriptions.has(name)) {
+            return;
+        }
+
+        const subscription: ActiveSubscription = {
+            name,
+            query,
+            variables,
+            onData,
+            retryDelayMs: RESUBSCRIBE_INITIAL_DELAY_MS,
+        };
+        this.subscriptions.set(name, subscription);
+        this.connect(subscription);
+    }
+
+    /**
+     * Stop all subscriptions and pending resubscribe timers
+     */
+    stop(): void {
+        this.stopRequested = true;
+
+        for (const subscription of this.subscriptions.values()) {
+            if (subscription.retryTimer) {
+                this.adapter.clearTimeout(subscription.retryTimer);
+                subscription.retryTimer = undefined;
+            }
+            subscription.handle?.unsubscribe();
+            subscription.handle = undefined;
+        }
+        this.subscriptions.clear();
+    }
+
+    /**
+     * Open the underlying Apollo subscription
+     *
+     * @param subscription - Subscription to connect
+     */
+    private connect(subscription: ActiveSubscription): void {
+        this.adapter.log.debug(`Subscription ${subscription.name}: subscribing`);
+
+        try {
+            subscription.handle = this.apolloClient
+                .subscribe<Record<string, unknown>>(subscription.query, subscription.variables)
+                .subscribe({
+                    next: result => {
+                        if (result.error) {
+                            this.scheduleResubscribe(subscription, result.error.message);
+                            return;
+                        }
+                        if (!result.data) {
+                            return;
+                        }
+                        subscription.retryDelayMs = RESUBSCRIBE_INITIAL_DELAY_MS;
+                        void subscription.onData(result.data).catch(error => {
+                            this.adapter.log.warn(
+                                `Subscription ${subscription.name}: failed to process payload: ${this.describeError(error)}`,
+                            );
+                        });
+                    },
+                    error: error => {
+                        this.scheduleResubscribe(subscription, this.describeError(error));
+                    },
+                    complete: () => {
+                        this.scheduleResubscribe(subscription, 'completed by server');
+                    },
+                });
+        } catch (error) {
+            this.scheduleResubscribe(subscription, this.describeError(error));
+        }
+    }
+
+    /**
+     * Drop the current subscription handle and re-subscribe after the backoff delay
+     *
+     * @param subscription - Subscription to re-establish
+     * @param reason - Reason for logging
+     */
+    private scheduleResubscribe(subscription: ActiveSubscription, reason: string): void {
+        if (this.stopRequested || subscription.retryTimer) {
+            return;
+        }
+
+        subscription.handle?.unsubscribe();
+        subscription.handle = undefined;
+
+        // The server rejected the document itself: retrying cannot help, polling keeps the data fresh
+        if (reason.includes('Cannot query field')) {
+            this.subscriptions.delete(subscription.name);
+            this.adapter.log.info(
+                `Subscription ${subscription.name} is not available on this server (${reason}), relying on polling`,
+            );
+            return;
+        }
+
+        const delayMs = subscription.retryDelayMs;
+        subscription.retryDelayMs = Math.min(delayMs * 2, RESUBSCRIBE_MAX_DELAY_MS);
+        this.adapter.log.warn(
+            `Subscription ${subscription.name} interrupted (${reason}), resubscribing in ${Math.round(delayMs / 1000)}s`,
+        );
+
+        subscription.retryTimer = this.adapter.setTimeout(() => {
+            subscription.retryTimer = undefined;
+            if (!this.stopRequested) {
+                this.connect(subscription);
+            }
+        }, delayMs);
+    }
+
+    /**
+     * Convert error to string description
+     *
+     * @param error - Error to describe
+     */
+    private describeError(error: unknown): string {
+        if (error instanceof Error) {
+            return error.message;
+        }
+        return String(error);
+    }
+}
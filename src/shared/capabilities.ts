@@ -10,12 +10,60 @@ export interface Capabilities {
     dockerUpdateFlag: boolean;
     /** Docker.containerUpdateStatuses list (authoritative per-container update status) */
     dockerContainerUpdateStatuses: boolean;
+    /** DockerContainer.webUiUrl/iconUrl/projectUrl/supportUrl (template links) */
+    dockerTemplateLinks: boolean;
+    /** DockerContainer.lanIpPorts */
+    dockerLanIpPorts: boolean;
+    /** DockerContainer.sizeRw and sizeLog */
+    dockerContainerSizes: boolean;
+    /** DockerContainer.autoStartOrder and autoStartWait */
+    dockerAutoStartOrder: boolean;
+    /** DockerContainer.isOrphaned and isRebuildReady */
+    dockerTemplateStatus: boolean;
+    /** DockerContainer.ports and networkSettings */
+    dockerContainerNetworking: boolean;
+    /** DockerContainer.mounts */
+    dockerContainerMounts: boolean;
+    /** DockerContainer.imageId and created */
+    dockerContainerImageInfo: boolean;
+    /** Docker.portConflicts */
+    dockerPortConflicts: boolean;
+    /** Docker.organizer (folder view) */
+    dockerOrganizer: boolean;
     /** DockerMutations.pause */
     dockerPause: boolean;
     /** DockerMutations.unpause */
     dockerUnpause: boolean;
     /** DockerMutations.updateContainer */
     dockerUpdate: boolean;
+    /** DockerMutations.removeContainer */
+    dockerRemove: boolean;
+    /** DockerMutations.updateAutostartConfiguration */
+    dockerAutoStartControl: boolean;
+    /** DockerMutations.updateContainers and updateAllContainers (with DockerContainer.isUpdateAvailable in the result) */
+    dockerBulkUpdate: boolean;
+    /** Mutation.refreshDockerDigests */
+    dockerRefreshDigests: boolean;
+    /** Mutation.parityCheck (start/pause/resume/cancel) */
+    parityCheckControl: boolean;
+    /** ArrayMutations.setState (start/stop the array) */
+    arrayStateControl: boolean;
+    /** Subscription.notificationAdded (push delivery of new notifications) */
+    notificationSubscription: boolean;
+    /** Subscription.upsUpdates (push delivery of UPS readings) */
+    upsSubscription: boolean;
+    /** Subscription.dockerContainerStats (live CPU/memory/IO per container) */
+    dockerStatsSubscription: boolean;
+    /** Docker.logs (container log lines with continuation cursor) */
+    dockerLogs: boolean;
+    /** Query.logFiles / Query.logFile (log file listing and reader) */
+    logFiles: boolean;
+    /** Subscription.logFile (push signal when a log file changes) */
+    logFileSubscription: boolean;
+    /** Mutation.archiveAll and friends (archive/unread/delete notifications) */
+    notificationControl: boolean;
+    /** Mutation.createNotification (raise notifications on the server) */
+    notificationCreate: boolean;
 }
 
 export type CapabilityKey = keyof Capabilities;
@@ -24,9 +72,33 @@ export const ALL_CAPABILITIES_DISABLED: Capabilities = {
     temperatureMetrics: false,
     dockerUpdateFlag: false,
     dockerContainerUpdateStatuses: false,
+    dockerTemplateLinks: false,
+    dockerLanIpPorts: false,
+    dockerContainerSizes: false,
+    dockerAutoStartOrder: false,
+    dockerTemplateStatus: false,
+    dockerContainerNetworking: false,
+    dockerContainerMounts: false,
+    dockerContainerImageInfo: false,
+    dockerPortConflicts: false,
+    dockerOrganizer: false,
     dockerPause: false,
     dockerUnpause: false,
     dockerUpdate: false,
+    dockerRemove: false,
+    dockerAutoStartControl: false,
+    dockerBulkUpdate: false,
+    dockerRefreshDigests: false,
+    parityCheckControl: false,
+    arrayStateControl: false,
+    notificationSubscription: false,
+    upsSubscription: false,
+    dockerStatsSubscription: false,
+    dockerLogs: false,
+    logFiles: false,
+    logFileSubscription: false,
+    notificationControl: false,
+    notificationCreate: false,
 };
 
 /**
@@ -38,8 +110,32 @@ export function allCapabilitiesEnabled(): Capabilities {
         temperatureMetrics: true,
         dockerUpdateFlag: true,
         dockerContainerUpdateStatuses: true,
+        dockerTemplateLinks: true,
+        dockerLanIpPorts: true,
+        dockerContainerSizes: true,
+        dockerAutoStartOrder: true,
+        dockerTemplateStatus: true,
+        dockerContainerNetworking: true,
+        dockerContainerMounts: true,
+        dockerContainerImageInfo: true,
+        dockerPortConflicts: true,
+        dockerOrganizer: true,
         dockerPause: true,
         dockerUnpause: true,
         dockerUpdate: true,
+        dockerRemove: true,
+        dockerAutoStartControl: true,
+        dockerBulkUpdate: true,
+        dockerRefreshDigests: true,
+        parityCheckControl: true,
+        arrayStateControl: true,
+        notificationSubscription: true,
+        upsSubscription: true,
+        dockerStatsSubscription: true,
+        dockerLogs: true,
+        logFiles: true,
+        logFileSubscription: true,
+        notificationControl: true,
+        notificationCreate: true,
     };
 }
@@ -0,0 +1,337 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+import type { DomainId, StateMapping } from './unraid-domains';
+import {
+    buildSystemVarsDefinition,
+    DOCKER_CONTAINER_FIELD_GROUPS,
+    domainDefinitionById,
+    domainNodeById,
+    SYSTEM_VARS_FIELD_CATALOGUE,
+} from './unraid-domains';
+import { resolveValue } from '../utils/data-transformers';
+
+/**
+ * Resolve one state of a domain definition against a GraphQL response the way the StateManager does
+ *
+ * @param domainId - Domain that defines the state
+ * @param stateId - State id within the domain
+ * @param data - GraphQL response data
+ */
+function stateValue(domainId: DomainId, stateId: string, data: Record<string, unknown>): unknown {
+    const mapping = domainDefinitionById.get(domainId)?.states.find(state => state.id === stateId);
+    if (!mapping) {
+        throw new Error(`Unknown state ${stateId} in ${domainId}`);
+    }
+    const raw = resolveValue(data, mapping.path);
+    return mapping.transform ? mapping.transform(raw) : raw;
+}
+
+describe('unraid-domains => array.parityCheck', () => {
+    const status = (overrides: Record<string, unknown>): Record<string, unknown> => ({
+        array: {
+            parityCheckStatus: {
+                status: 'RUNNING',
+                progress: 25,
+                speed: '123.4 MB/s',
+                errors: 0,
+                correcting: false,
+                paused: false,
+                running: true,
+                duration: 600,
+                date: '2026-10-01T02:00:00.000Z',
+                ...overrides,
+            },
+        },
+    });
+
+    it('should extrapolate the ETA from elapsed time and progress', () => {
+        expect(stateValue('array.parityCheck', 'array.parityCheck.etaSeconds', status({}))).to.equal(1800);
+        expect(stateValue('array.parityCheck', 'array.parityCheck.etaSeconds', status({ progress: 100 }))).to.equal(0);
+    });
+
+    it('should not report an ETA when no check is running or there is no progress yet', () => {
+        expect(stateValue('array.parityCheck', 'array.parityCheck.etaSeconds', status({ running: false }))).to.equal(
+            null,
+        );
+        expect(stateValue('array.parityCheck', 'array.parityCheck.etaSeconds', status({ progress: 0 }))).to.equal(null);
+        expect(stateValue('array.parityCheck', 'array.parityCheck.etaSeconds', status({ duration: null }))).to.equal(
+            null,
+        );
+        expect(stateValue('array.parityCheck', 'array.parityCheck.etaSeconds', { array: {} })).to.equal(null);
+    });
+
+    it('should parse the speed from its formatted text', () => {
+        expect(stateValue('array.parityCheck', 'array.parityCheck.speed', status({}))).to.equal(123.4);
+        expect(stateValue('array.parityCheck', 'array.parityCheck.speed', status({ speed: 'n/a' }))).to.equal(null);
+    });
+
+    it('should list only finished checks, newest first and limited to 10 entries', () => {
+        const history = Array.from({ length: 12 }, (_, index) => ({
+            date: `2026-${String(index + 1).padStart(2, '0')}-01T02:00:00.000Z`,
+            duration: 3600,
+            speed: '150 MB/s',
+            status: 'OK',
+            errors: index,
+            correcting: true,
+        }));
+        history.push({ ...history[0], date: '2026-12-31T02:00:00.000Z', status: 'RUNNING' });
+
+        const value = stateValue('array.parityCheck', 'array.parityCheck.history', { parityHistory: history });
+        const entries = JSON.parse(value as string) as Array<Record<string, unknown>>;
+
+        expect(entries).to.have.length(10);
+        expect(entries[0]).to.deep.equal({
+            date: '2026-12-01T02:00:00.000Z',
+            status: 'OK',
+            errors: 11,
+            durationSeconds: 3600,
+            speed: 150,
+            correcting: true,
+        });
+        expect(entries.map(entry => entry.status)).to.not.include('RUNNING');
+        expect(entries[9].date).to.equal('2026-03-01T02:00:00.000Z');
+    });
+});
+
+describe('unraid-domains => notifications', () => {
+    const notification = (id: string, importance: string): Record<string, unknown> => ({
+        id,
+        title: `Title ${id}`,
+        subject: `Subject ${id}`,
+        description: `Description ${id}`,
+        importance,
+        link: null,
+        timestamp: `2026-10-0${id}T10:00:00.000Z`,
+    });
+
+    it('should map the unread and archive counters', () => {
+        const data = {
+            notifications: {
+                overview: {
+                    unread: { info: 1, warning: 2, alert: 3, total: 6 },
+                    archive: { info: 10, warning: 0, alert: 1, total: 11 },
+                },
+            },
+        };
+
+        expect(stateValue('notifications.overview', 'notifications.unread.total', data)).to.equal(6);
+        expect(stateValue('notifications.overview', 'notifications.unread.alert', data)).to.equal(3);
+        expect(stateValue('notifications.overview', 'notifications.archive.info', data)).to.equal(10);
+        expect(stateValue('notifications.overview', 'notifications.archive.warning', data)).to.equal(0);
+    });
+
+    it('should expose the newest warning or alert and the full list', () => {
+        const data = {
+            notifications: { warningsAndAlerts: [notification('2', 'ALERT'), notification('1', 'WARNING')] },
+        };
+
+        expect(stateValue('notifications.warningsAndAlerts', 'notifications.warningsAndAlerts.count', data)).to.equal(
+            2,
+        );
+        expect(stateValue('notifications.warningsAndAlerts', 'notifications.latest.id', data)).to.equal('2');
+        expect(stateValue('notifications.warningsAndAlerts', 'notifications.latest.importance', data)).to.equal(
+            'ALERT',
+        );
+        const list = JSON.parse(
+            stateValue('notifications.warningsAndAlerts', 'notifications.warningsAndAlerts.list', data) as string,
+        ) as Array<Record<string, unknown>>;
+        expect(list.map(entry => entry.id)).to.deep.equal(['2', '1']);
+        expect(list[1]).to.deep.equal(notification('1', 'WARNING'));
+    });
+
+    it('should clear the latest notification when there are no warnings or alerts', () => {
+        const data = { notifications: { warningsAndAlerts: [] } };
+
+        expect(stateValue('notifications.warningsAndAlerts', 'notifications.warningsAndAlerts.count', data)).to.equal(
+            0,
+        );
+        expect(stateValue('notifications.warningsAndAlerts', 'notifications.latest.title', data)).to.equal(null);
+        expect(stateValue('notifications.warningsAndAlerts', 'notifications.warningsAndAlerts.list', data)).to.equal(
+            '[]',
+        );
+    });
+});
+
+describe('unraid-domains => docker.portConflicts', () => {
+    const conflicts = {
+        docker: {
+            portConflicts: {
+                containerPorts: [
+                    {
+                        privatePort: 8080,
+                        type: 'TCP',
+                        containers: [
+                            { id: 'a', name: 'sonarr' },
+                            { id: 'b', name: 'radarr' },
+                        ],
+                    },
+                ],
+                lanPorts: [
+                    {
+                        lanIpPort: '192.168.1.10:443',
+                        publicPort: 443,
+                        type: 'TCP',
+                        containers: [
+                            { id: 'c', name: 'nginx' },
+                            { id: 'd', name: 'swag' },
+                        ],
+                    },
+                ],
+            },
+        },
+    };
+
+    it('should count container and LAN port conflicts', () => {
+        expect(stateValue('docker.portConflicts', 'docker.portConflicts.count', conflicts)).to.equal(2);
+        expect(stateValue('docker.portConflicts', 'docker.portConflicts.hasConflicts', conflicts)).to.equal(true);
+    });
+
+    it('should list the conflicting ports with container names', () => {
+        const details = JSON.parse(
+            stateValue('docker.portConflicts', 'docker.portConflicts.details', conflicts) as string,
+        ) as Record<string, unknown>;
+
+        expect(details).to.deep.equal({
+            containerPorts: [{ privatePort: 8080, type: 'TCP', containers: ['sonarr', 'radarr'] }],
+            lanPorts: [{ lanIpPort: '192.168.1.10:443', publicPort: 443, type: 'TCP', containers: ['nginx', 'swag'] }],
+        });
+    });
+
+    it('should report no conflicts for empty lists and null when the field is missing', () => {
+        const empty = { docker: { portConflicts: { containerPorts: [], lanPorts: [] } } };
+
+        expect(stateValue('docker.portConflicts', 'docker.portConflicts.hasConflicts', empty)).to.equal(false);
+        expect(stateValue('docker.portConflicts', 'docker.portConflicts.count', empty)).to.equal(0);
+        expect(stateValue('docker.portConflicts', 'docker.portConflicts.hasConflicts', { docker: {} })).to.equal(null);
+        expect(stateValue('docker.portConflicts', 'docker.portConflicts.details', { docker: {} })).to.equal(null);
+    });
+});
+
+describe('unraid-domains => docker container field groups', () => {
+    it('should declare that every field group requires docker.containers', () => {
+        for (const group of DOCKER_CONTAINER_FIELD_GROUPS) {
+            expect(domainNodeById.get(group.domain)?.requires).to.deep.equal(['docker.containers']);
+        }
+    });
+
+    it('should serialize JSON fields and convert sizes', () => {
+        const mapping = (stateId: string): StateMapping | undefined =>
+            DOCKER_CONTAINER_FIELD_GROUPS.flatMap(group => group.states).find(state => state.id === stateId);
+
+        expect(mapping('ports')?.transform?.([{ privatePort: 80 }])).to.equal('[{"privatePort":80}]');
+        expect(mapping('ports')?.transform?.(null)).to.equal(null);
+        expect(mapping('sizeLogGb')?.transform?.(512 * 1024 ** 2)).to.equal(0.5);
+    });
+});
+
+describe('unraid-domains => system.vars', () => {
+    const curated = SYSTEM_VARS_FIELD_CATALOGUE.filter(field => field.curated).map(field => field.name);
+
+    it('should poll only the curated fields by default', () => {
+        const definition = domainDefinitionById.get('system.vars');
+
+        expect(definition?.selection[0].fields.map(field => field.name)).to.deep.equal(curated);
+        expect(definition?.states.map(state => state.id)).to.include.members([
+            'system.vars.version',
+            'system.vars.safeMode',
+            'system.vars.shareCount',
+        ]);
+    });
+
+    it('should add requested catalogue fields and ignore unknown ones', () => {
+        const definition = buildSystemVarsDefinition(['workgroup', 'csrfToken', 'useNtp']);
+        const fields = definition.selection[0].fields.map(field => field.name);
+
+        expect(fields).to.have.length(curated.length + 2);
+        expect(fields).to.include.members(['workgroup', 'useNtp']);
+        expect(fields).to.not.include('csrfToken');
+        expect(definition.states.find(state => state.id === 'system.vars.useNtp')).to.deep.include({
+            path: ['vars', 'useNtp'],
+            common: { type: 'boolean', role: 'indicator' },
+        });
+    });
+
+    it('should not offer secrets', () => {
+        const names = SYSTEM_VARS_FIELD_CATALOGUE.map(field => field.name);
+
+        for (const secret of ['csrfToken', 'flashGuid', 'regGuid', 'regFile']) {
+            expect(names).to.not.include(secret);
+        }
+        expect(new Set(names).size).to.equal(names.length);
+    });
+});
+
+describe('unraid-domains => registration.license', () => {
+    const registration = (fields: Record<string, unknown>): Record<string, unknown> => ({ registration: fields });
+    const value = (stateId: string, fields: Record<string, unknown>): unknown =>
+        stateValue('registration.license', `registration.${stateId}`, registration(fields));
+
+    it('should treat licenses and trials as valid without a reason', () => {
+        expect(value('isValid', { state: 'PRO' })).to.equal(true);
+        expect(value('isValid', { state: 'TRIAL' })).to.equal(true);
+        expect(value('reason', { state: 'PRO' })).to.equal(null);
+        expect(value('flashError', { state: 'PRO' })).to.equal(false);
+    });
+
+    it('should explain error states and fall back to the base state of numbered variants', () => {
+        expect(value('isValid', { state: 'EEXPIRED' })).to.equal(false);
+        expect(value('reason', { state: 'EEXPIRED' })).to.equal('Trial expired');
+        expect(value('reason', { state: 'ENOKEYFILE1' })).to.equal('Key file not found');
+        expect(value('reason', { state: 'ENOFLASH7' })).to.equal('Cannot access the USB flash boot device');
+        expect(value('flashError', { state: 'ENOFLASH7' })).to.equal(true);
+        expect(value('reason', { state: 'EUNKNOWN' })).to.equal('EUNKNOWN');
+    });
+
+    it('should report null for a missing state', () => {
+        expect(value('isValid', {})).to.equal(null);
+        expect(value('reason', {})).to.equal(null);
+        expect(value('flashError', {})).to.equal(null);
+    });
+
+    it('should parse expiration dates given in seconds, milliseconds or ISO format', () => {
+        expect(value('expiration', { expiration: '1790000000' })).to.equal(1_790_000_000_000);
+        expect(value('expiration', { expiration: 1_790_000_000_000 })).to.equal(1_790_000_000_000);
+        expect(value('expiration', { expiration: '2026-10-19T00:00:00.000Z' })).to.equal(
+            Date.parse('2026-10-19T00:00:00.000Z'),
+        );
+        expect(value('expiration', { expiration: '0' })).to.equal(null);
+        expect(value('expiration', { expiration: 'never' })).to.equal(null);
+    });
+
+    it('should count the full days until updates expire', () => {
+        const clock = sinon.useFakeTimers({ now: Date.parse('2026-10-19T12:00:00.000Z') });
+        try {
+            expect(value('daysUntilUpdateExpiration', { updateExpiration: '2026-10-29T18:00:00.000Z' })).to.equal(10);
+            expect(value('daysUntilUpdateExpiration', { updateExpiration: '2026-10-18T12:00:00.000Z' })).to.equal(-1);
+            expect(value('daysUntilUpdateExpiration', { updateExpiration: null })).to.equal(null);
+        } finally {
+            clock.restore();
+        }
+    });
+});
+
+describe('unraid-domains => info.hardware', () => {
+    const memory = (layout: unknown): Record<string, unknown> => ({ info: { memory: { layout } } });
+    const module = (size: number | null): Record<string, unknown> => ({ size, type: 'DDR4', clockSpeed: 3200 });
+
+    it('should be kept out of the regular poll', () => {
+        expect(domainDefinitionById.get('info.hardware')?.slowPoll).to.equal(true);
+        expect(domainDefinitionById.get('info.os')?.slowPoll).to.equal(undefined);
+    });
+
+    it('should sum the module sizes and count the modules', () => {
+        const data = memory([module(16 * 1024 ** 3), module(16 * 1024 ** 3), module(null)]);
+
+        expect(stateValue('info.hardware', 'info.hardware.memory.totalGb', data)).to.equal(32);
+        expect(stateValue('info.hardware', 'info.hardware.memory.moduleCount', data)).to.equal(3);
+        expect(JSON.parse(stateValue('info.hardware', 'info.hardware.memory.layout', data) as string)).to.have.length(
+            3,
+        );
+    });
+
+    it('should report null without a memory layout', () => {
+        expect(stateValue('info.hardware', 'info.hardware.memory.totalGb', memory(null))).to.equal(null);
+        expect(stateValue('info.hardware', 'info.hardware.memory.moduleCount', memory(null))).to.equal(null);
+        expect(stateValue('info.hardware', 'info.hardware.memory.layout', { info: {} })).to.equal(null);
+    });
+});
@@ -15,6 +15,8 @@ export interface DomainNode {
     defaultSelected?: boolean;
     /** Child nodes in the domain tree */
     children?: readonly DomainNode[];
+    /** Domains that must be selected as well, because this domain only extends their states */
+    requires?: readonly DomainId[];
 }
 
 /**
@@ -25,8 +27,13 @@ export type DomainId =
     | 'info'
     | 'info.time'
     | 'info.os'
+    | 'info.hardware'
     | 'server'
     | 'server.status'
+    | 'system'
+    | 'system.vars'
+    | 'registration'
+    | 'registration.license'
     | 'metrics'
     | 'metrics.cpu'
     | 'metrics.memory'
@@ -37,13 +44,30 @@ export type DomainId =
     | 'array.disks'
     | 'array.parities'
     | 'array.caches'
+    | 'array.parityCheck'
     | 'docker'
     | 'docker.containers'
+    | 'docker.containers.links'
+    | 'docker.containers.network'
+    | 'docker.containers.storage'
+    | 'docker.containers.details'
+    | 'docker.networks'
+    | 'docker.portConflicts'
+    | 'docker.folders'
     | 'docker.updates'
     | 'shares'
     | 'shares.list'
     | 'vms'
-    | 'vms.list';
+    | 'vms.list'
+    | 'notifications'
+    | 'notifications.overview'
+    | 'notifications.warningsAndAlerts'
+    | 'ups'
+    | 'ups.devices'
+    | 'disks'
+    | 'disks.physical'
+    | 'logs'
+    | 'logs.files';
 
 /**
  * Specification for a GraphQL field selection.
@@ -119,6 +143,20 @@ export interface DomainDefinition {
     selection: readonly RootSelection[];
     /** State mappings for this domain */
     states: readonly StateMapping[];
+    /** Rarely changing data: fetched at startup and on the slow schedule instead of every poll cycle */
+    slowPoll?: boolean;
+}
+
+/**
+ * Selectable field of the Unraid `vars` object, mirrored to `system.vars.<name>`
+ */
+export interface SystemVarsField {
+    /** Field name in the `Vars` GraphQL type, also used as state id segment */
+    name: string;
+    /** Common state attributes */
+    common: StateMapping['common'];
+    /** Part of the curated set that is always polled with the `system.vars` domain */
+    curated?: boolean;
 }
 
 /**
@@ -139,6 +177,11 @@ const domainTreeDefinition: readonly DomainNode[] = [
                 id: 'info.os',
                 label: 'domains.info.os',
             },
+            {
+                id: 'info.hardware',
+                label: 'domains.info.hardware',
+                defaultSelected: false,
+            },
         ],
     },
     {
@@ -152,6 +195,28 @@ const domainTreeDefinition: readonly DomainNode[] = [
             },
         ],
     },
+    {
+        id: 'system',
+        label: 'domains.system',
+        children: [
+            {
+                id: 'system.vars',
+                label: 'domains.system.vars',
+                defaultSelected: false,
+            },
+        ],
+    },
+    {
+        id: 'registration',
+        label: 'domains.registration',
+        children: [
+            {
+                id: 'registration.license',
+                label: 'domains.registration.license',
+                defaultSelected: false,
+            },
+        ],
+    },
     {
         id: 'metrics',
         label: 'domains.metrics',
@@ -203,6 +268,11 @@ const domainTreeDefinition: readonly DomainNode[] = [
                 label: 'domains.array.caches',
                 defaultSelected: false,
             },
+            {
+                id: 'array.parityCheck',
+                label: 'domains.array.parityCheck',
+                defaultSelected: false,
+            },
         ],
     },
     {
@@ -214,11 +284,50 @@ const domainTreeDefinition: readonly DomainNode[] = [
                 label: 'domains.docker.containers',
                 defaultSelected: false,
             },
+            {
+                id: 'docker.containers.links',
+                label: 'domains.docker.containers.links',
+                defaultSelected: false,
+                requires: ['docker.containers'],
+            },
+            {
+                id: 'docker.containers.network',
+                label: 'domains.docker.containers.network',
+                defaultSelected: false,
+                requires: ['docker.containers'],
+            },
+            {
+                id: 'docker.containers.storage',
+                label: 'domains.docker.containers.storage',
+                defaultSelected: false,
+                requires: ['docker.containers'],
+            },
+            {
+                id: 'docker.containers.details',
+                label: 'domains.docker.containers.details',
+                defaultSelected: false,
+                requires: ['docker.containers'],
+            },
             {
                 id: 'docker.updates',
                 label: 'domains.docker.updates',
                 defaultSelected: true,
             },
+            {
+                id: 'docker.networks',
+                label: 'domains.docker.networks',
+                defaultSelected: false,
+            },
+            {
+                id: 'docker.portConflicts',
+                label: 'domains.docker.portConflicts',
+                defaultSelected: false,
+            },
+            {
+                id: 'docker.folders',
+                label: 'domains.docker.folders',
+                defaultSelected: false,
+            },
         ],
     },
     {
@@ -243,6 +352,55 @@ const domainTreeDefinition: readonly DomainNode[] = [
             },
         ],
     },
+    {
+        id: 'notifications',
+        label: 'domains.notifications',
+        children: [
+            {
+                id: 'notifications.overview',
+                label: 'domains.notifications.overview',
+                defaultSelected: false,
+            },
+            {
+                id: 'notifications.warningsAndAlerts',
+                label: 'domains.notifications.warningsAndAlerts',
+                defaultSelected: false,
+            },
+        ],
+    },
+    {
+        id: 'ups',
+        label: 'domains.ups',
+        children: [
+            {
+                id: 'ups.devices',
+                label: 'domains.ups.devices',
+                defaultSelected: false,
+            },
+        ],
+    },
+    {
+        id: 'disks',
+        label: 'domains.disks',
+        children: [
+            {
+                id: 'disks.physical',
+                label: 'domains.disks.physical',
+                defaultSelected: false,
+            },
+        ],
+    },
+    {
+        id: 'logs',
+        label: 'domains.logs',
+        children: [
+            {
+                id: 'logs.files',
+                label: 'domains.logs.files',
+                defaultSelected: false,
+            },
+        ],
+    },
 ];
 
 /**
@@ -348,6 +506,247 @@ const ancestorIndex = buildAncestorIndex(domainTreeDefinition, undefined, new Ma
  */
 export const getDomainAncestors = (id: DomainId): readonly DomainId[] => ancestorIndex.get(id) ?? [];
 
+/**
+ * Number of finished parity checks exposed in `array.parityCheck.history`
+ */
+const PARITY_HISTORY_LIMIT = 10;
+
+/**
+ * Fields requested for every UPS device
+ */
+const UPS_DEVICE_FIELDS: readonly FieldSpec[] = [
+    { name: 'id' },
+    { name: 'name' },
+    { name: 'model' },
+    { name: 'status' },
+    {
+        name: 'battery',
+        selection: [{ name: 'chargeLevel' }, { name: 'estimatedRuntime' }, { name: 'health' }],
+    },
+    {
+        name: 'power',
+        selection: [
+            { name: 'inputVoltage' },
+            { name: 'outputVoltage' },
+            { name: 'loadPercentage' },
+            { name: 'nominalPower' },
+            { name: 'currentPower' },
+        ],
+    },
+];
+
+/**
+ * Fields requested for every memory module of `info.memory.layout`
+ */
+const MEMORY_LAYOUT_FIELDS: readonly FieldSpec[] = [
+    { name: 'size' },
+    { name: 'bank' },
+    { name: 'type' },
+    { name: 'clockSpeed' },
+    { name: 'partNum' },
+    { name: 'serialNum' },
+    { name: 'manufacturer' },
+    { name: 'formFactor' },
+    { name: 'voltageConfigured' },
+];
+
+/**
+ * Fields requested for every GPU of `info.devices.gpu`
+ */
+const GPU_DEVICE_FIELDS: readonly FieldSpec[] = [
+    { name: 'id' },
+    { name: 'type' },
+    { name: 'typeid' },
+    { name: 'vendorname' },
+    { name: 'productid' },
+    { name: 'class' },
+    { name: 'blacklisted' },
+];
+
+/**
+ * Fields requested for every notification entry
+ */
+const NOTIFICATION_FIELDS: readonly FieldSpec[] = [
+    { name: 'id' },
+    { name: 'title' },
+    { name: 'subject' },
+    { name: 'description' },
+    { name: 'importance' },
+    { name: 'link' },
+    { name: 'timestamp' },
+];
+
+/**
+ * Catalogue of the `vars` fields offered by the `system.vars` domain. Curated fields are
+ * always polled; the others can be enabled in the admin (`systemVarsExtraFields`).
+ * Secrets (csrfToken, GUIDs, key file paths) and the boot transfer fields that only the
+ * newest API versions know are intentionally not listed.
+ */
+export const SYSTEM_VARS_FIELD_CATALOGUE: readonly SystemVarsField[] = [
+    { name: 'version', common: { type: 'string', role: 'info.version' }, curated: true },
+    { name: 'name', common: { type: 'string', role: 'text' }, curated: true },
+    { name: 'comment', common: { type: 'string', role: 'text' }, curated: true },
+    { name: 'sysModel', common: { type: 'string', role: 'text' }, curated: true },
+    { name: 'timeZone', common: { type: 'string', role: 'text' }, curated: true },
+    { name: 'useSsh', common: { type: 'boolean', role: 'indicator' }, curated: true },
+    { name: 'useSsl', common: { type: 'boolean', role: 'indicator' }, curated: true },
+    { name: 'port', common: { type: 'number', role: 'value' }, curated: true },
+    { name: 'startArray', common: { type: 'boolean', role: 'indicator' }, curated: true },
+    { name: 'spindownDelay', common: { type: 'string', role: 'text' }, curated: true },
+    { name: 'shareSmbEnabled', common: { type: 'boolean', role: 'indicator' }, curated: true },
+    { name: 'shareNfsEnabled', common: { type: 'boolean', role: 'indicator' }, curated: true },
+    { name: 'shareMoverSchedule', common: { type: 'string', role: 'text' }, curated: true },
+    { name: 'safeMode', common: { type: 'boolean', role: 'indicator' }, curated: true },
+    { name: 'configValid', common: { type: 'boolean', role: 'indicator' }, curated: true },
+    { name: 'configError', common: { type: 'string', role: 'text' }, curated: true },
+    { name: 'mdNumDisabled', common: { type: 'number', role: 'value' }, curated: true },
+    { name: 'mdNumInvalid', common: { type: 'number', role: 'value' }, curated: true },
+    { name: 'mdNumMissing', common: { type: 'number', role: 'value' }, curated: true },
+    { name: 'fsState', common: { type: 'string', role: 'text' }, curated: true },
+    { name: 'shareCount', common: { type: 'number', role: 'value' }, curated: true },
+    { name: 'security', common: { type: 'string', role: 'text' } },
+    { name: 'workgroup', common: { type: 'string', role: 'text' } },
+    { name: 'domain', common: { type: 'string', role: 'text' } },
+    { name: 'domainShort', common: { type: 'string', role: 'text' } },
+    { name: 'enableFruit', common: { type: 'string', role: 'text' } },
+    { name: 'ntpServer1', common: { type: 'string', role: 'text' } },
+    { name: 'ntpServer2', common: { type: 'string', role: 'text' } },
+    { name: 'ntpServer3', common: { type: 'string', role: 'text' } },
+    { name: 'ntpServer4', common: { type: 'string', role: 'text' } },
+    { name: 'domainLogin', common: { type: 'string', role: 'text' } },
+    { name: 'localTld', common: { type: 'string', role: 'text' } },
+    { name: 'startPage', common: { type: 'string', role: 'text' } },
+    { name: 'queueDepth', common: { type: 'string', role: 'text' } },
+    { name: 'defaultFormat', common: { type: 'string', role: 'text' } },
+    { name: 'defaultFsType', common: { type: 'string', role: 'text' } },
+    { name: 'pollAttributes', common: { type: 'string', role: 'text' } },
+    { name: 'pollAttributesDefault', common: { type: 'string', role: 'text' } },
+    { name: 'pollAttributesStatus', common: { type: 'string', role: 'text' } },
+    { name: 'nrRequestsStatus', common: { type: 'string', role: 'text' } },
+    { name: 'mdNumStripesStatus', common: { type: 'string', role: 'text' } },
+    { name: 'mdSyncWindowStatus', common: { type: 'string', role: 'text' } },
+    { name: 'mdSyncThreshStatus', common: { type: 'string', role: 'text' } },
+    { name: 'mdWriteMethodDefault', common: { type: 'string', role: 'text' } },
+    { name: 'mdWriteMethodStatus', common: { type: 'string', role: 'text' } },
+    { name: 'shareDisk', common: { type: 'string', role: 'text' } },
+    { name: 'shareUser', common: { type: 'string', role: 'text' } },
+    { name: 'shareUserInclude', common: { type: 'string', role: 'text' } },
+    { name: 'shareUserExclude', common: { type: 'string', role: 'text' } },
+    { name: 'shareInitialOwner', common: { type: 'string', role: 'text' } },
+    { name: 'shareInitialGroup', common: { type: 'string', role: 'text' } },
+    { name: 'shareCacheFloor', common: { type: 'string', role: 'text' } },
+    { name: 'fuseRemember', common: { type: 'string', role: 'text' } },
+    { name: 'fuseRememberDefault', common: { type: 'string', role: 'text' } },
+    { name: 'fuseRememberStatus', common: { type: 'string', role: 'text' } },
+    { name: 'fuseDirectio', common: { type: 'string', role: 'text' } },
+    { name: 'fuseDirectioDefault', common: { type: 'string', role: 'text' } },
+    { name: 'fuseDirectioStatus', common: { type: 'string', role: 'text' } },
+    { name: 'shareAvahiSmbName', common: { type: 'string', role: 'text' } },
+    { name: 'shareAvahiSmbModel', common: { type: 'string', role: 'text' } },
+    { name: 'shareAvahiAfpName', common: { type: 'string', role: 'text' } },
+    { name: 'shareAvahiAfpModel', common: { type: 'string', role: 'text' } },
+    { name: 'startMode', common: { type: 'string', role: 'text' } },
+    { name: 'joinStatus', common: { type: 'string', role: 'text' } },
+    { name: 'flashProduct', common: { type: 'string', role: 'text' } },
+    { name: 'flashVendor', common: { type: 'string', role: 'text' } },
+    { name: 'regCheck', common: { type: 'string', role: 'text' } },
+    { name: 'regTy', common: { type: 'string', role: 'text' } },
+    { name: 'regState', common: { type: 'string', role: 'text' } },
+    { name: 'regTo', common: { type: 'string', role: 'text' } },
+    { name: 'regTm', common: { type: 'string', role: 'text' } },
+    { name: 'regTm2', common: { type: 'string', role: 'text' } },
+    { name: 'regGen', common: { type: 'string', role: 'text' } },
+    { name: 'sbName', common: { type: 'string', role: 'text' } },
+    { name: 'sbVersion', common: { type: 'string', role: 'text' } },
+    { name: 'sbUpdated', common: { type: 'string', role: 'text' } },
+    { name: 'sbState', common: { type: 'string', role: 'text' } },
+    { name: 'sbSyncExit', common: { type: 'string', role: 'text' } },
+    { name: 'mdColor', common: { type: 'string', role: 'text' } },
+    { name: 'mdResyncCorr', common: { type: 'string', role: 'text' } },
+    { name: 'mdResyncPos', common: { type: 'string', role: 'text' } },
+    { name: 'mdResyncDb', common: { type: 'string', role: 'text' } },
+    { name: 'mdResyncDt', common: { type: 'string', role: 'text' } },
+    { name: 'mdResyncAction', common: { type: 'string', role: 'text' } },
+    { name: 'mdState', common: { type: 'string', role: 'text' } },
+    { name: 'mdVersion', common: { type: 'string', role: 'text' } },
+    { name: 'reservedNames', common: { type: 'string', role: 'text' } },
+    { name: 'fsProgress', common: { type: 'string', role: 'text' } },
+    { name: 'fsUnmountableMask', common: { type: 'string', role: 'text' } },
+    { name: 'maxArraysz', common: { type: 'number', role: 'value' } },
+    { name: 'maxCachesz', common: { type: 'number', role: 'value' } },
+    { name: 'sysArraySlots', common: { type: 'number', role: 'value' } },
+    { name: 'sysCacheSlots', common: { type: 'number', role: 'value' } },
+    { name: 'sysFlashSlots', common: { type: 'number', role: 'value' } },
+    { name: 'portssl', common: { type: 'number', role: 'value' } },
+    { name: 'porttelnet', common: { type: 'number', role: 'value' } },
+    { name: 'portssh', common: { type: 'number', role: 'value' } },
+    { name: 'shutdownTimeout', common: { type: 'number', role: 'value', unit: 's' } },
+    { name: 'nrRequests', common: { type: 'number', role: 'value' } },
+    { name: 'nrRequestsDefault', common: { type: 'number', role: 'value' } },
+    { name: 'mdNumStripes', common: { type: 'number', role: 'value' } },
+    { name: 'mdNumStripesDefault', common: { type: 'number', role: 'value' } },
+    { name: 'mdSyncWindow', common: { type: 'number', role: 'value' } },
+    { name: 'mdSyncWindowDefault', common: { type: 'number', role: 'value' } },
+    { name: 'mdSyncThresh', common: { type: 'number', role: 'value' } },
+    { name: 'mdSyncThreshDefault', common: { type: 'number', role: 'value' } },
+    { name: 'mdWriteMethod', common: { type: 'number', role: 'value' } },
+    { name: 'deviceCount', common: { type: 'number', role: 'value' } },
+    { name: 'sbEvents', common: { type: 'number', role: 'value' } },
+    { name: 'sbSynced', common: { type: 'number', role: 'value' } },
+    { name: 'sbSyncErrs', common: { type: 'number', role: 'value' } },
+    { name: 'sbSynced2', common: { type: 'number', role: 'value' } },
+    { name: 'sbNumDisks', common: { type: 'number', role: 'value' } },
+    { name: 'mdNumDisks', common: { type: 'number', role: 'value' } },
+    { name: 'mdNumNew', common: { type: 'number', role: 'value' } },
+    { name: 'mdNumErased', common: { type: 'number', role: 'value' } },
+    { name: 'mdResync', common: { type: 'number', role: 'value' } },
+    { name: 'mdResyncSize', common: { type: 'number', role: 'value' } },
+    { name: 'cacheNumDevices', common: { type: 'number', role: 'value' } },
+    { name: 'cacheSbNumDisks', common: { type: 'number', role: 'value' } },
+    { name: 'fsCopyPrcnt', common: { type: 'number', role: 'value', unit: '%' } },
+    { name: 'fsNumMounted', common: { type: 'number', role: 'value' } },
+    { name: 'fsNumUnmountable', common: { type: 'number', role: 'value' } },
+    { name: 'shareSmbCount', common: { type: 'number', role: 'value' } },
+    { name: 'shareNfsCount', common: { type: 'number', role: 'value' } },
+    { name: 'shareAfpCount', common: { type: 'number', role: 'value' } },
+    { name: 'hideDotFiles', common: { type: 'boolean', role: 'indicator' } },
+    { name: 'localMaster', common: { type: 'boolean', role: 'indicator' } },
+    { name: 'useNtp', common: { type: 'boolean', role: 'indicator' } },
+    { name: 'bindMgt', common: { type: 'boolean', role: 'indicator' } },
+    { name: 'useTelnet', common: { type: 'boolean', role: 'indicator' } },
+    { name: 'spinupGroups', common: { type: 'boolean', role: 'indicator' } },
+    { name: 'shareAfpEnabled', common: { type: 'boolean', role: 'indicator' } },
+    { name: 'shareCacheEnabled', common: { type: 'boolean', role: 'indicator' } },
+    { name: 'shareMoverLogging', common: { type: 'boolean', role: 'indicator' } },
+    { name: 'shareAvahiEnabled', common: { type: 'boolean', role: 'indicator' } },
+    { name: 'sbClean', common: { type: 'boolean', role: 'indicator' } },
+    { name: 'shareMoverActive', common: { type: 'boolean', role: 'indicator' } },
+];
+
+/**
+ * `RegistrationState` values of a usable license or trial
+ */
+const VALID_REGISTRATION_STATES = new Set(['TRIAL', 'BASIC', 'PLUS', 'PRO', 'STARTER', 'UNLEASHED', 'LIFETIME']);
+
+/**
+ * Readable reason per `RegistrationState` error value (`E*`); numbered variants
+ * without an own entry fall back to their base state (e.g. ENOFLASH3 -> ENOFLASH)
+ */
+const REGISTRATION_ERROR_REASONS: Readonly<Record<string, string>> = {
+    EEXPIRED: 'Trial expired',
+    ETRIAL: 'Trial key is invalid',
+    EGUID: 'Flash GUID does not match the key file',
+    EGUID1: 'Multiple license keys present',
+    ENOKEYFILE: 'No key file installed',
+    ENOKEYFILE1: 'Key file not found',
+    ENOKEYFILE2: 'Key file is missing or unreadable',
+    ENOFLASH: 'Cannot access the USB flash boot device',
+    EBLACKLISTED: 'Flash GUID is blacklisted',
+    EBLACKLISTED1: 'USB flash device error',
+    EBLACKLISTED2: 'USB flash device has no serial number',
+    ENOCONN: 'Cannot validate the trial key (no connection)',
+};
+
 const domainDefinitionsList: readonly DomainDefinition[] = [
     {
         id: 'info.time',
@@ -396,6 +795,266 @@ const domainDefinitionsList: readonly DomainDefinition[] = [
             },
         ],
     },
+    {
+        id: 'info.hardware',
+        slowPoll: true,
+        selection: [
+            {
+                root: 'info',
+                fields: [
+                    {
+                        name: 'cpu',
+                        selection: [
+                            { name: 'manufacturer' },
+                            { name: 'brand' },
+                            { name: 'socket' },
+                            { name: 'cores' },
+                            { name: 'threads' },
+                            { name: 'processors' },
+                            { name: 'speed' },
+                            { name: 'speedmin' },
+                            { name: 'speedmax' },
+                        ],
+                    },
+                    {
+                        name: 'baseboard',
+                        selection: [
+                            { name: 'manufacturer' },
+                            { name: 'model' },
+                            { name: 'version' },
+                            { name: 'serial' },
+                            { name: 'assetTag' },
+                            { name: 'memMax' },
+                            { name: 'memSlots' },
+                        ],
+                    },
+                    {
+                        name: 'system',
+                        selection: [
+                            { name: 'manufacturer' },
+                            { name: 'model' },
+                            { name: 'version' },
+                            { name: 'serial' },
+                            { name: 'uuid' },
+                            { name: 'sku' },
+                            { name: 'virtual' },
+                        ],
+                    },
+                    {
+                        name: 'memory',
+                        selection: [{ name: 'layout', selection: MEMORY_LAYOUT_FIELDS }],
+                    },
+                    {
+                        name: 'devices',
+                        selection: [
+                            { name: 'gpu', selection: GPU_DEVICE_FIELDS },
+                            {
+                                name: 'pci',
+                                selection: [
+                                    { name: 'id' },
+                                    { name: 'type' },
+                                    { name: 'typeid' },
+                                    { name: 'vendorname' },
+                                    { name: 'vendorid' },
+                                    { name: 'productname' },
+                                    { name: 'productid' },
+                                    { name: 'blacklisted' },
+                                    { name: 'class' },
+                                ],
+                            },
+                            {
+                                name: 'usb',
+                                selection: [{ name: 'id' }, { name: 'name' }, { name: 'bus' }, { name: 'device' }],
+                            },
+                            {
+                                name: 'network',
+                                selection: [
+                                    { name: 'id' },
+                                    { name: 'iface' },
+                                    { name: 'model' },
+                                    { name: 'vendor' },
+                                    { name: 'mac' },
+                                    { name: 'virtual' },
+                                    { name: 'speed' },
+                                    { name: 'dhcp' },
+                                ],
+                            },
+                        ],
+                    },
+                ],
+            },
+        ],
+        states: [
+            {
+                id: 'info.hardware.cpu.manufacturer',
+                path: ['info', 'cpu', 'manufacturer'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.cpu.brand',
+                path: ['info', 'cpu', 'brand'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.cpu.socket',
+                path: ['info', 'cpu', 'socket'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.cpu.cores',
+                path: ['info', 'cpu', 'cores'],
+                common: { type: 'number', role: 'value' },
+            },
+            {
+                id: 'info.hardware.cpu.threads',
+                path: ['info', 'cpu', 'threads'],
+                common: { type: 'number', role: 'value' },
+            },
+            {
+                id: 'info.hardware.cpu.processors',
+                path: ['info', 'cpu', 'processors'],
+                common: { type: 'number', role: 'value' },
+            },
+            {
+                id: 'info.hardware.cpu.speed',
+                path: ['info', 'cpu', 'speed'],
+                common: { type: 'number', role: 'value', unit: 'GHz' },
+            },
+            {
+                id: 'info.hardware.cpu.speedmin',
+                path: ['info', 'cpu', 'speedmin'],
+                common: { type: 'number', role: 'value', unit: 'GHz' },
+            },
+            {
+                id: 'info.hardware.cpu.speedmax',
+                path: ['info', 'cpu', 'speedmax'],
+                common: { type: 'number', role: 'value', unit: 'GHz' },
+            },
+            {
+                id: 'info.hardware.baseboard.manufacturer',
+                path: ['info', 'baseboard', 'manufacturer'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.baseboard.model',
+                path: ['info', 'baseboard', 'model'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.baseboard.version',
+                path: ['info', 'baseboard', 'version'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.baseboard.serial',
+                path: ['info', 'baseboard', 'serial'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.baseboard.assetTag',
+                path: ['info', 'baseboard', 'assetTag'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.baseboard.memMaxGb',
+                path: ['info', 'baseboard', 'memMax'],
+                common: { type: 'number', role: 'value', unit: 'GB' },
+                transform: bytesToGigabytes,
+            },
+            {
+                id: 'info.hardware.baseboard.memSlots',
+                path: ['info', 'baseboard', 'memSlots'],
+                common: { type: 'number', role: 'value' },
+            },
+            {
+                id: 'info.hardware.system.manufacturer',
+                path: ['info', 'system', 'manufacturer'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.system.model',
+                path: ['info', 'system', 'model'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.system.version',
+                path: ['info', 'system', 'version'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.system.serial',
+                path: ['info', 'system', 'serial'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.system.uuid',
+                path: ['info', 'system', 'uuid'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.system.sku',
+                path: ['info', 'system', 'sku'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'info.hardware.system.virtual',
+                path: ['info', 'system', 'virtual'],
+                common: { type: 'boolean', role: 'indicator' },
+            },
+            {
+                id: 'info.hardware.memory.totalGb',
+                path: ['info', 'memory', 'layout'],
+                common: { type: 'number', role: 'value', unit: 'GB' },
+                transform: (value: unknown): number | null => {
+                    if (!Array.isArray(value)) {
+                        return null;
+                    }
+                    const bytes = value.reduce<number>(
+                        (sum, module) => sum + (numberOrNull((module as Record<string, unknown> | null)?.size) ?? 0),
+                        0,
+                    );
+                    return bytesToGigabytes(bytes);
+                },
+            },
+            {
+                id: 'info.hardware.memory.moduleCount',
+                path: ['info', 'memory', 'layout'],
+                common: { type: 'number', role: 'value' },
+                transform: (value: unknown): number | null => (Array.isArray(value) ? value.length : null),
+            },
+            {
+                id: 'info.hardware.memory.layout',
+                path: ['info', 'memory', 'layout'],
+                common: { type: 'string', role: 'json' },
+                transform: jsonOrNull,
+            },
+            {
+                id: 'info.hardware.devices.gpu',
+                path: ['info', 'devices', 'gpu'],
+                common: { type: 'string', role: 'json' },
+                transform: jsonOrNull,
+            },
+            {
+                id: 'info.hardware.devices.pci',
+                path: ['info', 'devices', 'pci'],
+                common: { type: 'string', role: 'json' },
+                transform: jsonOrNull,
+            },
+            {
+                id: 'info.hardware.devices.usb',
+                path: ['info', 'devices', 'usb'],
+                common: { type: 'string', role: 'json' },
+                transform: jsonOrNull,
+            },
+            {
+                id: 'info.hardware.devices.network',
+                path: ['info', 'devices', 'network'],
+                common: { type: 'string', role: 'json' },
+                transform: jsonOrNull,
+            },
+            // Note: Per-GPU channels (info.hardware.gpus.<id>) are created dynamically in main.ts
+        ],
+    },
     {
         id: 'server.status',
         selection: [
@@ -444,27 +1103,109 @@ const domainDefinitionsList: readonly DomainDefinition[] = [
             },
         ],
     },
+    buildSystemVarsDefinition([]),
     {
-        id: 'metrics.cpu',
+        id: 'registration.license',
         selection: [
             {
-                root: 'metrics',
-                fields: [
-                    {
-                        name: 'cpu',
-                        selection: [
-                            { name: 'percentTotal' },
-                            {
-                                name: 'cpus',
-                                selection: [
-                                    { name: 'percentTotal' },
-                                    { name: 'percentUser' },
-                                    { name: 'percentSystem' },
-                                    { name: 'percentNice' },
-                                    { name: 'percentIdle' },
-                                    { name: 'percentIrq' },
-                                ],
-                            },
+                root: 'registration',
+                fields: [{ name: 'type' }, { name: 'state' }, { name: 'expiration' }, { name: 'updateExpiration' }],
+            },
+            {
+                root: 'flash',
+                fields: [{ name: 'guid' }, { name: 'vendor' }, { name: 'product' }],
+            },
+        ],
+        states: [
+            {
+                id: 'registration.type',
+                path: ['registration', 'type'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'registration.state',
+                path: ['registration', 'state'],
+                common: { type: 'string', role: 'indicator.status' },
+            },
+            {
+                id: 'registration.isValid',
+                path: ['registration', 'state'],
+                common: { type: 'boolean', role: 'indicator' },
+                transform: (value: unknown): boolean | null =>
+                    typeof value === 'string' ? VALID_REGISTRATION_STATES.has(value) : null,
+            },
+            {
+                id: 'registration.reason',
+                path: ['registration', 'state'],
+                common: { type: 'string', role: 'text' },
+                transform: registrationReason,
+            },
+            {
+                id: 'registration.flashError',
+                path: ['registration', 'state'],
+                common: { type: 'boolean', role: 'indicator.alarm' },
+                transform: (value: unknown): boolean | null =>
+                    typeof value === 'string' ? value.startsWith('ENOFLASH') : null,
+            },
+            {
+                id: 'registration.expiration',
+                path: ['registration', 'expiration'],
+                common: { type: 'number', role: 'date' },
+                transform: timestampOrNull,
+            },
+            {
+                id: 'registration.updateExpiration',
+                path: ['registration', 'updateExpiration'],
+                common: { type: 'number', role: 'date' },
+                transform: timestampOrNull,
+            },
+            {
+                id: 'registration.daysUntilUpdateExpiration',
+                path: ['registration', 'updateExpiration'],
+                common: { type: 'number', role: 'value', unit: 'd' },
+                transform: (value: unknown): number | null => {
+                    const timestamp = timestampOrNull(value);
+                    return timestamp === null ? null : Math.floor((timestamp - Date.now()) / 86_400_000);
+                },
+            },
+            {
+                id: 'registration.flash.guid',
+                path: ['flash', 'guid'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'registration.flash.vendor',
+                path: ['flash', 'vendor'],
+                common: { type: 'string', role: 'text' },
+            },
+            {
+                id: 'registration.flash.product',
+                path: ['flash', 'product'],
+                common: { type: 'string', role: 'text' },
+            },
+        ],
+    },
+    {
+        id: 'metrics.cpu',
+        selection: [
+            {
+                root: 'metrics',
+                fields: [
+                    {
+                        name: 'cpu',
+                        selection: [
+                            { name: 'percentTotal' },
+                            {
+                                name: 'cpus',
+                                selection: [
+                                    { name: 'percentTotal' },
+                                    { name: 'percentUser' },
+                                    { name: 'percentSystem' },
+                                    { name: 'percentNice' },
+                                    { name: 'percentIdle' },
+                                    { name: 'percentIrq' },
+                                ],
+                            },
                         ],
                     },
                 ],
@@ -762,6 +1503,140 @@ const domainDefinitionsList: readonly DomainDefinition[] = [
             // Note: Cache states are created dynamically in main.ts
         ],
     },
+    {
+        id: 'array.parityCheck',
+        selection: [
+            {
+                root: 'array',
+                fields: [
+                    {
+                        name: 'parityCheckStatus',
+                        selection: [
+                            { name: 'status' },
+                            { name: 'progress' },
+                            { name: 'speed' },
+                            { name: 'errors' },
+                            { name: 'correcting' },
+                            { name: 'paused' },
+                            { name: 'running' },
+                            { name: 'duration' },
+                            { name: 'date' },
+                        ],
+                    },
+                ],
+            },
+            {
+                root: 'parityHistory',
+                fields: [
+                    { name: 'date' },
+                    { name: 'duration' },
+                    { name: 'speed' },
+                    { name: 'status' },
+                    { name: 'errors' },
+                    { name: 'correcting' },
+                ],
+            },
+        ],
+        states: [
+            {
+                id: 'array.parityCheck.status',
+                path: ['array', 'parityCheckStatus', 'status'],
+                common: { type: 'string', role: 'indicator.status' },
+            },
+            {
+                id: 'array.parityCheck.running',
+                path: ['array', 'parityCheckStatus', 'running'],
+                common: { type: 'boolean', role: 'indicator.working' },
+                transform: booleanOrNull,
+            },
+            {
+                id: 'array.parityCheck.paused',
+                path: ['array', 'parityCheckStatus', 'paused'],
+                common: { type: 'boolean', role: 'indicator' },
+                transform: booleanOrNull,
+            },
+            {
+                id: 'array.parityCheck.correcting',
+                path: ['array', 'parityCheckStatus', 'correcting'],
+                common: { type: 'boolean', role: 'indicator' },
+                transform: booleanOrNull,
+            },
+            {
+                id: 'array.parityCheck.progress',
+                path: ['array', 'parityCheckStatus', 'progress'],
+                common: { type: 'number', role: 'value.percent', unit: '%' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'array.parityCheck.speed',
+                path: ['array', 'parityCheckStatus', 'speed'],
+                common: { type: 'number', role: 'value.speed', unit: 'MB/s' },
+                transform: leadingNumberOrNull,
+            },
+            {
+                id: 'array.parityCheck.errors',
+                path: ['array', 'parityCheckStatus', 'errors'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'array.parityCheck.durationSeconds',
+                path: ['array', 'parityCheckStatus', 'duration'],
+                common: { type: 'number', role: 'value.interval', unit: 's' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'array.parityCheck.etaSeconds',
+                path: ['array', 'parityCheckStatus'],
+                common: { type: 'number', role: 'value.interval', unit: 's' },
+                transform: (value: unknown): number | null => {
+                    if (!value || typeof value !== 'object') {
+                        return null;
+                    }
+                    // Extrapolate from elapsed time and progress; only meaningful while the check runs.
+                    const status = value as Record<string, unknown>;
+                    const progress = numberOrNull(status.progress);
+                    const duration = numberOrNull(status.duration);
+                    if (status.running !== true || progress === null || duration === null || progress <= 0) {
+                        return null;
+                    }
+                    if (progress >= 100) {
+                        return 0;
+                    }
+                    return Math.round((duration * (100 - progress)) / progress);
+                },
+            },
+            {
+                id: 'array.parityCheck.lastDate',
+                path: ['array', 'parityCheckStatus', 'date'],
+                common: { type: 'string', role: 'value.datetime' },
+            },
+            {
+                id: 'array.parityCheck.history',
+                path: ['parityHistory'],
+                common: { type: 'string', role: 'json' },
+                transform: (value: unknown): string | null => {
+                    if (!Array.isArray(value)) {
+                        return null;
+                    }
+                    const finished = value
+                        .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+                        .filter(entry => entry.status !== 'RUNNING' && entry.status !== 'PAUSED')
+                        .sort((left, right) => dateKey(right.date).localeCompare(dateKey(left.date)))
+                        .slice(0, PARITY_HISTORY_LIMIT)
+                        .map(entry => ({
+                            date: entry.date ?? null,
+                            status: entry.status ?? null,
+                            errors: numberOrNull(entry.errors),
+                            durationSeconds: numberOrNull(entry.duration),
+                            speed: leadingNumberOrNull(entry.speed),
+                            correcting: booleanOrNull(entry.correcting),
+                        }));
+                    return JSON.stringify(finished);
+                },
+            },
+        ],
+    },
     {
         id: 'docker.containers',
         selection: [
@@ -793,6 +1668,103 @@ const domainDefinitionsList: readonly DomainDefinition[] = [
             // Note: Container states are created dynamically in main.ts
         ],
     },
+    {
+        id: 'docker.containers.links',
+        selection: [
+            {
+                root: 'docker',
+                fields: [
+                    {
+                        name: 'containers',
+                        selection: [
+                            { name: 'webUiUrl', requiresCapability: 'dockerTemplateLinks' },
+                            { name: 'iconUrl', requiresCapability: 'dockerTemplateLinks' },
+                            { name: 'projectUrl', requiresCapability: 'dockerTemplateLinks' },
+                            { name: 'supportUrl', requiresCapability: 'dockerTemplateLinks' },
+                        ],
+                    },
+                ],
+            },
+        ],
+        states: [
+            // Note: Container field group states are created dynamically in main.ts
+        ],
+    },
+    {
+        id: 'docker.containers.network',
+        selection: [
+            {
+                root: 'docker',
+                fields: [
+                    {
+                        name: 'containers',
+                        selection: [
+                            {
+                                name: 'ports',
+                                selection: [
+                                    { name: 'ip' },
+                                    { name: 'privatePort' },
+                                    { name: 'publicPort' },
+                                    { name: 'type' },
+                                ],
+                                requiresCapability: 'dockerContainerNetworking',
+                            },
+                            { name: 'lanIpPorts', requiresCapability: 'dockerLanIpPorts' },
+                            { name: 'networkSettings', requiresCapability: 'dockerContainerNetworking' },
+                        ],
+                    },
+                ],
+            },
+        ],
+        states: [
+            // Note: Container field group states are created dynamically in main.ts
+        ],
+    },
+    {
+        id: 'docker.containers.storage',
+        selection: [
+            {
+                root: 'docker',
+                fields: [
+                    {
+                        name: 'containers',
+                        selection: [
+                            { name: 'sizeRw', requiresCapability: 'dockerContainerSizes' },
+                            { name: 'sizeLog', requiresCapability: 'dockerContainerSizes' },
+                            { name: 'mounts', requiresCapability: 'dockerContainerMounts' },
+                        ],
+                    },
+                ],
+            },
+        ],
+        states: [
+            // Note: Container field group states are created dynamically in main.ts
+        ],
+    },
+    {
+        id: 'docker.containers.details',
+        selection: [
+            {
+                root: 'docker',
+                fields: [
+                    {
+                        name: 'containers',
+                        selection: [
+                            { name: 'imageId', requiresCapability: 'dockerContainerImageInfo' },
+                            { name: 'created', requiresCapability: 'dockerContainerImageInfo' },
+                            { name: 'autoStartOrder', requiresCapability: 'dockerAutoStartOrder' },
+                            { name: 'autoStartWait', requiresCapability: 'dockerAutoStartOrder' },
+                            { name: 'isOrphaned', requiresCapability: 'dockerTemplateStatus' },
+                            { name: 'isRebuildReady', requiresCapability: 'dockerTemplateStatus' },
+                        ],
+                    },
+                ],
+            },
+        ],
+        states: [
+            // Note: Container field group states are created dynamically in main.ts
+        ],
+    },
     {
         id: 'docker.updates',
         selection: [
@@ -817,24 +1789,32 @@ const domainDefinitionsList: readonly DomainDefinition[] = [
         ],
     },
     {
-        id: 'metrics.temperature.board',
+        id: 'docker.folders',
         selection: [
             {
-                root: 'metrics',
-                requiresCapability: 'temperatureMetrics',
+                root: 'docker',
                 fields: [
                     {
-                        name: 'temperature',
+                        name: 'organizer',
+                        requiresCapability: 'dockerOrganizer',
                         selection: [
                             {
-                                name: 'sensors',
+                                name: 'views',
                                 selection: [
                                     { name: 'id' },
-                                    { name: 'name' },
-                                    { name: 'type' },
+                                    { name: 'rootId' },
                                     {
-                                        name: 'current',
-                                        selection: [{ name: 'value' }, { name: 'status' }],
+                                        name: 'flatEntries',
+                                        selection: [
+                                            { name: 'id' },
+                                            { name: 'type' },
+                                            { name: 'name' },
+                                            { name: 'childrenIds' },
+                                            {
+                                                name: 'meta',
+                                                selection: [{ name: 'id' }, { name: 'names' }, { name: 'state' }],
+                                            },
+                                        ],
                                     },
                                 ],
                             },
@@ -844,58 +1824,428 @@ const domainDefinitionsList: readonly DomainDefinition[] = [
             },
         ],
         states: [
-            // Note: Sensor states are created dynamically in main.ts
+            // Note: Folder states are created dynamically in main.ts
         ],
     },
     {
-        id: 'shares.list',
+        id: 'docker.networks',
         selection: [
             {
-                root: 'shares',
+                root: 'docker',
                 fields: [
-                    { name: 'id' },
-                    { name: 'name' },
-                    { name: 'free' },
-                    { name: 'used' },
-                    { name: 'size' },
-                    { name: 'include' },
-                    { name: 'exclude' },
-                    { name: 'cache' },
-                    { name: 'nameOrig' },
-                    { name: 'comment' },
-                    { name: 'allocator' },
-                    { name: 'splitLevel' },
-                    { name: 'floor' },
-                    { name: 'cow' },
-                    { name: 'color' },
-                    { name: 'luksStatus' },
+                    {
+                        name: 'networks',
+                        selection: [
+                            { name: 'id' },
+                            { name: 'name' },
+                            { name: 'driver' },
+                            { name: 'scope' },
+                            { name: 'internal' },
+                            { name: 'containers' },
+                        ],
+                    },
                 ],
             },
         ],
         states: [
-            // Note: Share states are created dynamically in main.ts
+            // Note: Network states are created dynamically in main.ts
         ],
     },
     {
-        id: 'vms.list',
+        id: 'docker.portConflicts',
         selection: [
             {
-                root: 'vms',
+                root: 'docker',
                 fields: [
                     {
-                        name: 'domains',
-                        selection: [{ name: 'id' }, { name: 'name' }, { name: 'state' }, { name: 'uuid' }],
+                        name: 'portConflicts',
+                        requiresCapability: 'dockerPortConflicts',
+                        selection: [
+                            {
+                                name: 'containerPorts',
+                                selection: [
+                                    { name: 'privatePort' },
+                                    { name: 'type' },
+                                    { name: 'containers', selection: [{ name: 'id' }, { name: 'name' }] },
+                                ],
+                            },
+                            {
+                                name: 'lanPorts',
+                                selection: [
+                                    { name: 'lanIpPort' },
+                                    { name: 'publicPort' },
+                                    { name: 'type' },
+                                    { name: 'containers', selection: [{ name: 'id' }, { name: 'name' }] },
+                                ],
+                            },
+                        ],
                     },
                 ],
             },
         ],
         states: [
-            // Note: VM states are created dynamically in main.ts
+            {
+                id: 'docker.portConflicts.hasConflicts',
+                path: ['docker', 'portConflicts'],
+                common: { type: 'boolean', role: 'indicator.alarm' },
+                transform: (value: unknown): boolean | null => {
+                    const count = portConflictCount(value);
+                    return count === null ? null : count > 0;
+                },
+            },
+            {
+                id: 'docker.portConflicts.count',
+                path: ['docker', 'portConflicts'],
+                common: { type: 'number', role: 'value' },
+                transform: portConflictCount,
+            },
+            {
+                id: 'docker.portConflicts.details',
+                path: ['docker', 'portConflicts'],
+                common: { type: 'string', role: 'json' },
+                transform: (value: unknown): string | null => {
+                    if (!value || typeof value !== 'object') {
+                        return null;
+                    }
+                    const conflicts = value as Record<string, unknown>;
+                    const containerNames = (entry: Record<string, unknown>): unknown[] =>
+                        Array.isArray(entry.containers)
+                            ? entry.containers.map(container => (container as Record<string, unknown>)?.name ?? null)
+                            : [];
+                    const entries = (list: unknown): Record<string, unknown>[] =>
+                        Array.isArray(list)
+                            ? list.filter(
+                                  (entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object',
+                              )
+                            : [];
+                    return JSON.stringify({
+                        containerPorts: entries(conflicts.containerPorts).map(entry => ({
+                            privatePort: entry.privatePort ?? null,
+                            type: entry.type ?? null,
+                            containers: containerNames(entry),
+                        })),
+                        lanPorts: entries(conflicts.lanPorts).map(entry => ({
+                            lanIpPort: entry.lanIpPort ?? null,
+                            publicPort: entry.publicPort ?? null,
+                            type: entry.type ?? null,
+                            containers: containerNames(entry),
+                        })),
+                    });
+                },
+            },
         ],
     },
-];
-
-function numberOrNull(value: unknown): number | null {
+    {
+        id: 'metrics.temperature.board',
+        selection: [
+            {
+                root: 'metrics',
+                requiresCapability: 'temperatureMetrics',
+                fields: [
+                    {
+                        name: 'temperature',
+                        selection: [
+                            {
+                                name: 'sensors',
+                                selection: [
+                                    { name: 'id' },
+                                    { name: 'name' },
+                                    { name: 'type' },
+                                    {
+                                        name: 'current',
+                                        selection: [{ name: 'value' }, { name: 'status' }],
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                ],
+            },
+        ],
+        states: [
+            // Note: Sensor states are created dynamically in main.ts
+        ],
+    },
+    {
+        id: 'shares.list',
+        selection: [
+            {
+                root: 'shares',
+                fields: [
+                    { name: 'id' },
+                    { name: 'name' },
+                    { name: 'free' },
+                    { name: 'used' },
+                    { name: 'size' },
+                    { name: 'include' },
+                    { name: 'exclude' },
+                    { name: 'cache' },
+                    { name: 'nameOrig' },
+                    { name: 'comment' },
+                    { name: 'allocator' },
+                    { name: 'splitLevel' },
+                    { name: 'floor' },
+                    { name: 'cow' },
+                    { name: 'color' },
+                    { name: 'luksStatus' },
+                ],
+            },
+        ],
+        states: [
+            // Note: Share states are created dynamically in main.ts
+        ],
+    },
+    {
+        id: 'vms.list',
+        selection: [
+            {
+                root: 'vms',
+                fields: [
+                    {
+                        name: 'domains',
+                        selection: [{ name: 'id' }, { name: 'name' }, { name: 'state' }, { name: 'uuid' }],
+                    },
+                ],
+            },
+        ],
+        states: [
+            // Note: VM states are created dynamically in main.ts
+        ],
+    },
+    {
+        id: 'notifications.overview',
+        selection: [
+            {
+                root: 'notifications',
+                fields: [
+                    {
+                        name: 'overview',
+                        selection: [
+                            {
+                                name: 'unread',
+                                selection: [
+                                    { name: 'info' },
+                                    { name: 'warning' },
+                                    { name: 'alert' },
+                                    { name: 'total' },
+                                ],
+                            },
+                            {
+                                name: 'archive',
+                                selection: [
+                                    { name: 'info' },
+                                    { name: 'warning' },
+                                    { name: 'alert' },
+                                    { name: 'total' },
+                                ],
+                            },
+                        ],
+                    },
+                ],
+            },
+        ],
+        states: [
+            {
+                id: 'notifications.unread.info',
+                path: ['notifications', 'overview', 'unread', 'info'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'notifications.unread.warning',
+                path: ['notifications', 'overview', 'unread', 'warning'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'notifications.unread.alert',
+                path: ['notifications', 'overview', 'unread', 'alert'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'notifications.unread.total',
+                path: ['notifications', 'overview', 'unread', 'total'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'notifications.archive.info',
+                path: ['notifications', 'overview', 'archive', 'info'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'notifications.archive.warning',
+                path: ['notifications', 'overview', 'archive', 'warning'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'notifications.archive.alert',
+                path: ['notifications', 'overview', 'archive', 'alert'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+            {
+                id: 'notifications.archive.total',
+                path: ['notifications', 'overview', 'archive', 'total'],
+                common: { type: 'number', role: 'value' },
+                transform: numberOrNull,
+            },
+        ],
+    },
+    {
+        id: 'notifications.warningsAndAlerts',
+        selection: [
+            {
+                root: 'notifications',
+                fields: [{ name: 'warningsAndAlerts', selection: NOTIFICATION_FIELDS }],
+            },
+        ],
+        states: [
+            {
+                id: 'notifications.warningsAndAlerts.count',
+                path: ['notifications', 'warningsAndAlerts'],
+                common: { type: 'number', role: 'value' },
+                transform: (value: unknown): number | null => (Array.isArray(value) ? value.length : null),
+            },
+            {
+                id: 'notifications.latest.id',
+                path: ['notifications', 'warningsAndAlerts'],
+                common: { type: 'string', role: 'text' },
+                transform: latestNotificationField('id'),
+            },
+            {
+                id: 'notifications.latest.title',
+                path: ['notifications', 'warningsAndAlerts'],
+                common: { type: 'string', role: 'text' },
+                transform: latestNotificationField('title'),
+            },
+            {
+                id: 'notifications.latest.subject',
+                path: ['notifications', 'warningsAndAlerts'],
+                common: { type: 'string', role: 'text' },
+                transform: latestNotificationField('subject'),
+            },
+            {
+                id: 'notifications.latest.description',
+                path: ['notifications', 'warningsAndAlerts'],
+                common: { type: 'string', role: 'text' },
+                transform: latestNotificationField('description'),
+            },
+            {
+                id: 'notifications.latest.importance',
+                path: ['notifications', 'warningsAndAlerts'],
+                common: { type: 'string', role: 'text' },
+                transform: latestNotificationField('importance'),
+            },
+            {
+                id: 'notifications.latest.timestamp',
+                path: ['notifications', 'warningsAndAlerts'],
+                common: { type: 'string', role: 'value.datetime' },
+                transform: latestNotificationField('timestamp'),
+            },
+            {
+                id: 'notifications.warningsAndAlerts.list',
+                path: ['notifications', 'warningsAndAlerts'],
+                common: { type: 'string', role: 'json' },
+                transform: (value: unknown): string | null => {
+                    if (!Array.isArray(value)) {
+                        return null;
+                    }
+                    const entries = value
+                        .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+                        .map(entry => ({
+                            id: entry.id ?? null,
+                            title: entry.title ?? null,
+                            subject: entry.subject ?? null,
+                            description: entry.description ?? null,
+                            importance: entry.importance ?? null,
+                            link: entry.link ?? null,
+                            timestamp: entry.timestamp ?? null,
+                        }));
+                    return JSON.stringify(entries);
+                },
+            },
+        ],
+    },
+    {
+        id: 'ups.devices',
+        selection: [
+            {
+                root: 'upsDevices',
+                fields: UPS_DEVICE_FIELDS,
+            },
+        ],
+        states: [
+            // Note: UPS states are created dynamically in main.ts
+        ],
+    },
+    {
+        id: 'disks.physical',
+        selection: [
+            {
+                root: 'disks',
+                fields: [
+                    { name: 'id' },
+                    { name: 'device' },
+                    { name: 'type' },
+                    { name: 'name' },
+                    { name: 'vendor' },
+                    { name: 'size' },
+                    { name: 'serialNum' },
+                    { name: 'firmwareRevision' },
+                    { name: 'interfaceType' },
+                    { name: 'smartStatus' },
+                    { name: 'temperature' },
+                    { name: 'isSpinning' },
+                    {
+                        name: 'partitions',
+                        selection: [{ name: 'name' }, { name: 'fsType' }, { name: 'size' }],
+                    },
+                ],
+            },
+        ],
+        states: [
+            // Note: Physical disk states are created dynamically in main.ts
+        ],
+    },
+    {
+        id: 'logs.files',
+        selection: [
+            {
+                root: 'logFiles',
+                requiresCapability: 'logFiles',
+                fields: [{ name: 'name' }, { name: 'path' }, { name: 'size' }, { name: 'modifiedAt' }],
+            },
+        ],
+        states: [
+            {
+                id: 'logs.files.available',
+                path: ['logFiles'],
+                common: { type: 'string', role: 'json' },
+                transform: (value: unknown): string | null => {
+                    if (!Array.isArray(value)) {
+                        return null;
+                    }
+                    const entries = value
+                        .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+                        .map(entry => ({
+                            name: entry.name ?? null,
+                            path: entry.path ?? null,
+                            size: entry.size ?? null,
+                            modifiedAt: entry.modifiedAt ?? null,
+                        }));
+                    return JSON.stringify(entries);
+                },
+            },
+            // Note: Watched log file states are created dynamically by the LogManager
+        ],
+    },
+];
+
+function numberOrNull(value: unknown): number | null {
     if (value === null || value === undefined) {
         return null;
     }
@@ -913,6 +2263,101 @@ function numberOrNull(value: unknown): number | null {
     return null;
 }
 
+/**
+ * Build a transform that extracts one field of the newest notification.
+ * `warningsAndAlerts` is already sorted latest first by the API.
+ *
+ * @param field - Notification field to extract
+ * @returns Transform returning the field value as string, or null if there is no notification
+ */
+function latestNotificationField(field: string): (value: unknown) => string | null {
+    return (value: unknown): string | null => {
+        if (!Array.isArray(value) || value.length === 0) {
+            return null;
+        }
+        const latest = value[0] as Record<string, unknown> | null;
+        const fieldValue = latest?.[field];
+        return typeof fieldValue === 'string' ? fieldValue : null;
+    };
+}
+
+/**
+ * Count container and LAN port conflicts reported by `docker.portConflicts`.
+ *
+ * @param value - DockerPortConflicts object
+ * @returns Number of conflicting ports or null if the field is missing
+ */
+function portConflictCount(value: unknown): number | null {
+    if (!value || typeof value !== 'object') {
+        return null;
+    }
+    const conflicts = value as Record<string, unknown>;
+    const containerPorts = Array.isArray(conflicts.containerPorts) ? conflicts.containerPorts.length : 0;
+    const lanPorts = Array.isArray(conflicts.lanPorts) ? conflicts.lanPorts.length : 0;
+    return containerPorts + lanPorts;
+}
+
+/**
+ * Map a `RegistrationState` to a readable reason.
+ *
+ * @param value - RegistrationState value
+ * @returns Reason for error states, null for valid licenses or a missing state
+ */
+function registrationReason(value: unknown): string | null {
+    if (typeof value !== 'string' || VALID_REGISTRATION_STATES.has(value)) {
+        return null;
+    }
+    return REGISTRATION_ERROR_REASONS[value] ?? REGISTRATION_ERROR_REASONS[value.replace(/\d+$/, '')] ?? value;
+}
+
+/**
+ * Parse a registration date: epoch milliseconds or seconds as string/number, or an ISO date.
+ *
+ * @param value - Raw date value
+ * @returns Timestamp in milliseconds or null if empty, zero or invalid
+ */
+function timestampOrNull(value: unknown): number | null {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        return null;
+    }
+    const text = String(value).trim();
+    if (/^\d+$/.test(text)) {
+        const numeric = Number(text);
+        if (numeric <= 0) {
+            return null;
+        }
+        return numeric < 1e12 ? numeric * 1000 : numeric;
+    }
+    const parsed = Date.parse(text);
+    return Number.isNaN(parsed) ? null : parsed;
+}
+
+function jsonOrNull(value: unknown): string | null {
+    return value === null || value === undefined ? null : JSON.stringify(value);
+}
+
+function dateKey(value: unknown): string {
+    return typeof value === 'string' ? value : '';
+}
+
+function booleanOrNull(value: unknown): boolean | null {
+    return typeof value === 'boolean' ? value : null;
+}
+
+/**
+ * Parse the leading number of a string such as `"123.4 MB/s"`.
+ *
+ * @param value - Raw value (string or number)
+ * @returns Parsed number or null if no number is present
+ */
+function leadingNumberOrNull(value: unknown): number | null {
+    if (typeof value === 'string') {
+        const parsed = Number.parseFloat(value);
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    return numberOrNull(value);
+}
+
 /**
  * Convert bytes to gigabytes.
  *
@@ -995,6 +2440,27 @@ export const expandSelection = (selection: Iterable<DomainId>): Set<DomainId> =>
     return result;
 };
 
+/**
+ * Build the `system.vars` domain definition: the curated fields plus the requested
+ * catalogue fields. Unknown field names are ignored.
+ *
+ * @param extraFields - Additional catalogue field names
+ * @returns Domain definition polling the selected `vars` fields
+ */
+export function buildSystemVarsDefinition(extraFields: Iterable<string>): DomainDefinition {
+    const requested = new Set(extraFields);
+    const fields = SYSTEM_VARS_FIELD_CATALOGUE.filter(field => field.curated || requested.has(field.name));
+    return {
+        id: 'system.vars',
+        selection: [{ root: 'vars', fields: fields.map(field => ({ name: field.name })) }],
+        states: fields.map(field => ({
+            id: `system.vars.${field.name}`,
+            path: ['vars', field.name],
+            common: field.common,
+        })),
+    };
+}
+
 /**
  * Docker container control state mappings
  */
@@ -1059,25 +2525,260 @@ export const DOCKER_CONTROL_STATES: StateMapping[] = [
             name: 'Update Container',
         },
     },
-];
-
-/**
- * Virtual machine control state mappings
- */
-export const VM_CONTROL_STATES: StateMapping[] = [
     {
-        id: 'commands.start',
+        id: 'commands.restart',
         path: [],
         common: {
             type: 'boolean',
-            role: 'button.start',
+            role: 'button',
             read: true,
             write: true,
             def: false,
-            name: 'Start VM',
+            name: 'Restart Container',
         },
     },
-    {
+];
+
+/**
+ * Docker container log state mappings (only created when the server offers `Docker.logs`)
+ */
+export const DOCKER_LOG_CONTROL_STATES: StateMapping[] = [
+    {
+        id: 'logs.fetch',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Fetch Container Logs',
+        },
+    },
+];
+
+/**
+ * Folder-level buttons below `docker.folders.<folder>` acting on all member containers
+ */
+export const DOCKER_FOLDER_CONTROL_STATES: StateMapping[] = [
+    {
+        id: 'commands.start',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.start',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Start All Containers in Folder',
+        },
+    },
+    {
+        id: 'commands.stop',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.stop',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Stop All Containers in Folder',
+        },
+    },
+];
+
+/**
+ * Guarded container removal buttons (only created when the server offers `removeContainer`).
+ * `remove` and `removeWithImage` are only accepted shortly after `arm`.
+ */
+export const DOCKER_REMOVE_CONTROL_STATES: StateMapping[] = [
+    {
+        id: 'commands.arm',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Arm Container Removal',
+        },
+    },
+    {
+        id: 'commands.remove',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Remove Container',
+        },
+    },
+    {
+        id: 'commands.removeWithImage',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Remove Container and Image',
+        },
+    },
+];
+
+/**
+ * Container states that become writable when the server offers `updateAutostartConfiguration`.
+ * Writes are translated into autostart mutations by the ControlManager.
+ */
+export const DOCKER_AUTOSTART_WRITABLE_COMMON: Readonly<Record<string, StateMapping['common']>> = {
+    autoStart: { type: 'boolean', role: 'switch.enable', write: true },
+    autoStartOrder: { type: 'number', role: 'level', write: true },
+    autoStartWait: { type: 'number', role: 'level.timer', unit: 's', write: true },
+};
+
+/**
+ * Bulk Docker update controls below `docker.updates` (only created when the server offers
+ * `updateContainers`/`updateAllContainers`). `updateList` takes a JSON array of container names.
+ */
+export const DOCKER_BULK_UPDATE_CONTROL_STATES: StateMapping[] = [
+    {
+        id: 'commands.updateAll',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Update All Containers',
+        },
+    },
+    {
+        id: 'updateList',
+        path: [],
+        common: {
+            type: 'string',
+            role: 'json',
+            read: true,
+            write: true,
+            def: '',
+            name: 'Update Containers (JSON array of names)',
+            desc: '["plex", "radarr"]',
+        },
+    },
+];
+
+/**
+ * Digest refresh button below `docker.updates` (only created when the server offers `refreshDockerDigests`)
+ */
+export const DOCKER_REFRESH_DIGESTS_CONTROL_STATES: StateMapping[] = [
+    {
+        id: 'commands.refreshDigests',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Refresh Update Digests',
+        },
+    },
+];
+
+/**
+ * Optional per-container field groups. Each group is a selectable domain that adds
+ * fields to the `docker.containers` query; its states live below `docker.containers.<name>`
+ * and `path` is relative to the container object.
+ */
+export const DOCKER_CONTAINER_FIELD_GROUPS: ReadonlyArray<{ domain: DomainId; states: readonly StateMapping[] }> = [
+    {
+        domain: 'docker.containers.links',
+        states: [
+            { id: 'webUiUrl', path: ['webUiUrl'], common: { type: 'string', role: 'text.url' } },
+            { id: 'iconUrl', path: ['iconUrl'], common: { type: 'string', role: 'text.url' } },
+            { id: 'projectUrl', path: ['projectUrl'], common: { type: 'string', role: 'text.url' } },
+            { id: 'supportUrl', path: ['supportUrl'], common: { type: 'string', role: 'text.url' } },
+        ],
+    },
+    {
+        domain: 'docker.containers.network',
+        states: [
+            { id: 'ports', path: ['ports'], common: { type: 'string', role: 'json' }, transform: jsonOrNull },
+            { id: 'lanIpPorts', path: ['lanIpPorts'], common: { type: 'string', role: 'json' }, transform: jsonOrNull },
+            {
+                id: 'networkSettings',
+                path: ['networkSettings'],
+                common: { type: 'string', role: 'json' },
+                transform: jsonOrNull,
+            },
+        ],
+    },
+    {
+        domain: 'docker.containers.storage',
+        states: [
+            {
+                id: 'sizeRwGb',
+                path: ['sizeRw'],
+                common: { type: 'number', role: 'value', unit: 'GB' },
+                transform: bytesToGigabytes,
+            },
+            {
+                id: 'sizeLogGb',
+                path: ['sizeLog'],
+                common: { type: 'number', role: 'value', unit: 'GB' },
+                transform: bytesToGigabytes,
+            },
+            { id: 'mounts', path: ['mounts'], common: { type: 'string', role: 'json' }, transform: jsonOrNull },
+        ],
+    },
+    {
+        domain: 'docker.containers.details',
+        states: [
+            { id: 'imageId', path: ['imageId'], common: { type: 'string', role: 'text' } },
+            {
+                id: 'created',
+                path: ['created'],
+                common: { type: 'number', role: 'date' },
+                // Unix seconds -> milliseconds
+                transform: (value: unknown): number | null => {
+                    const seconds = numberOrNull(value);
+                    return seconds === null ? null : seconds * 1000;
+                },
+            },
+            { id: 'autoStartOrder', path: ['autoStartOrder'], common: { type: 'number', role: 'value' } },
+            {
+                id: 'autoStartWait',
+                path: ['autoStartWait'],
+                common: { type: 'number', role: 'value.interval', unit: 's' },
+            },
+            { id: 'isOrphaned', path: ['isOrphaned'], common: { type: 'boolean', role: 'indicator' } },
+            { id: 'isRebuildReady', path: ['isRebuildReady'], common: { type: 'boolean', role: 'indicator' } },
+        ],
+    },
+];
+
+/**
+ * Virtual machine control state mappings
+ */
+export const VM_CONTROL_STATES: StateMapping[] = [
+    {
+        id: 'commands.start',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.start',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Start VM',
+        },
+    },
+    {
         id: 'commands.stop',
         path: [],
         common: {
@@ -1149,4 +2850,242 @@ export const VM_CONTROL_STATES: StateMapping[] = [
             name: 'Reset VM (Force)',
         },
     },
+    {
+        id: 'commands.shutdownAndWait',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.stop',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Shut Down VM (Force Stop After Timeout)',
+        },
+    },
+];
+
+/**
+ * Parity check control state mappings (created below `array.parityCheck`)
+ */
+export const PARITY_CHECK_CONTROL_STATES: StateMapping[] = [
+    {
+        id: 'commands.start',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.start',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Start Parity Check (read-only)',
+        },
+    },
+    {
+        id: 'commands.startCorrecting',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.start',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Start Parity Check (write corrections)',
+        },
+    },
+    {
+        id: 'commands.pause',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.pause',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Pause Parity Check',
+        },
+    },
+    {
+        id: 'commands.resume',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.resume',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Resume Parity Check',
+        },
+    },
+    {
+        id: 'commands.cancel',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.stop',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Cancel Parity Check',
+        },
+    },
+];
+
+/**
+ * Array start/stop control state mappings (created below `array` when array control is enabled).
+ * `start`/`stop` are only executed within a short window after `arm` was pressed.
+ */
+export const ARRAY_CONTROL_STATES: StateMapping[] = [
+    {
+        id: 'commands.arm',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Arm Array Start/Stop',
+        },
+    },
+    {
+        id: 'commands.start',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.start',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Start Array',
+        },
+    },
+    {
+        id: 'commands.stop',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button.stop',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Stop Array',
+        },
+    },
+];
+
+/**
+ * Notification management control state mappings (created below `notifications`).
+ * `archive` and `markUnread` take a notification id (e.g. from `notifications.latest.id`),
+ * `notify` takes a JSON object describing the notification to create on the server.
+ */
+export const NOTIFICATION_CONTROL_STATES: StateMapping[] = [
+    {
+        id: 'commands.archiveAll',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Archive All Notifications',
+        },
+    },
+    {
+        id: 'commands.archiveAllInfo',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Archive All Info Notifications',
+        },
+    },
+    {
+        id: 'commands.archiveAllWarning',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Archive All Warnings',
+        },
+    },
+    {
+        id: 'commands.archiveAllAlert',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Archive All Alerts',
+        },
+    },
+    {
+        id: 'commands.archive',
+        path: [],
+        common: {
+            type: 'string',
+            role: 'text',
+            read: true,
+            write: true,
+            def: '',
+            name: 'Archive Notification (ID)',
+        },
+    },
+    {
+        id: 'commands.markUnread',
+        path: [],
+        common: {
+            type: 'string',
+            role: 'text',
+            read: true,
+            write: true,
+            def: '',
+            name: 'Mark Notification Unread (ID)',
+        },
+    },
+    {
+        id: 'commands.notify',
+        path: [],
+        common: {
+            type: 'string',
+            role: 'json',
+            read: true,
+            write: true,
+            def: '',
+            name: 'Create Notification (JSON)',
+            desc: '{"title": "...", "subject": "...", "description": "...", "importance": "INFO|WARNING|ALERT", "link": "...", "unique": false}',
+        },
+    },
+    {
+        id: 'commands.deleteArchived',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Delete Archived Notifications',
+        },
+    },
+    {
+        id: 'commands.recalculateOverview',
+        path: [],
+        common: {
+            type: 'boolean',
+            role: 'button',
+            read: true,
+            write: true,
+            def: false,
+            name: 'Recalculate Notification Counters',
+        },
+    },
 ];
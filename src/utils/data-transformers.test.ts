@@ -0,0 +1,154 @@
+import { expect } from 'chai';
+import { isUpsOnBattery, parseDockerSize, parseDockerSizePair, resolveDockerFolders } from './data-transformers';
+
+describe('data-transformers => isUpsOnBattery', () => {
+    it('should detect the Unraid wording and raw apcupsd flags', () => {
+        expect(isUpsOnBattery('On Battery')).to.equal(true);
+        expect(isUpsOnBattery('ONBATT LOWBATT')).to.equal(true);
+        expect(isUpsOnBattery('on_battery')).to.equal(true);
+    });
+
+    it('should report false for mains operation', () => {
+        expect(isUpsOnBattery('Online')).to.equal(false);
+        expect(isUpsOnBattery('ONLINE CHARGING')).to.equal(false);
+    });
+
+    it('should return null for an unknown status', () => {
+        expect(isUpsOnBattery(null)).to.equal(null);
+        expect(isUpsOnBattery('')).to.equal(null);
+    });
+});
+
+describe('data-transformers => parseDockerSize', () => {
+    it('should use decimal multipliers for kB/MB/GB', () => {
+        expect(parseDockerSize('100kB')).to.equal(100_000);
+        expect(parseDockerSize('1.5MB')).to.equal(1_500_000);
+        expect(parseDockerSize('2GB')).to.equal(2_000_000_000);
+    });
+
+    it('should use binary multipliers for KiB/MiB/GiB', () => {
+        expect(parseDockerSize('1KiB')).to.equal(1024);
+        expect(parseDockerSize('1.5MiB')).to.equal(1_572_864);
+        expect(parseDockerSize('2GiB')).to.equal(2 * 1024 ** 3);
+    });
+
+    it('should parse zero and plain byte values', () => {
+        expect(parseDockerSize('0B')).to.equal(0);
+        expect(parseDockerSize('512')).to.equal(512);
+        expect(parseDockerSize(' 12 B ')).to.equal(12);
+    });
+
+    it('should return null for empty or unparsable values', () => {
+        expect(parseDockerSize('')).to.equal(null);
+        expect(parseDockerSize(null)).to.equal(null);
+        expect(parseDockerSize('n/a')).to.equal(null);
+        expect(parseDockerSize('5XB')).to.equal(null);
+    });
+});
+
+describe('data-transformers => parseDockerSizePair', () => {
+    it('should split both sides of a pair', () => {
+        expect(parseDockerSizePair('100MiB / 1GB')).to.deep.equal([100 * 1024 ** 2, 1_000_000_000]);
+        expect(parseDockerSizePair('0B / 0B')).to.deep.equal([0, 0]);
+    });
+
+    it('should return null for a missing side', () => {
+        expect(parseDockerSizePair('1.2kB / ')).to.deep.equal([1200, null]);
+        expect(parseDockerSizePair(' / 3MB')).to.deep.equal([null, 3_000_000]);
+        expect(parseDockerSizePair('1.2kB')).to.deep.equal([1200, null]);
+    });
+
+    it('should return nulls for empty values', () => {
+        expect(parseDockerSizePair('')).to.deep.equal([null, null]);
+        expect(parseDockerSizePair(undefined)).to.deep.equal([null, null]);
+    });
+});
+
+describe('data-transformers => resolveDockerFolders', () => {
+    const container = (id: string, state = 'RUNNING'): Record<string, unknown> => ({
+        id: `entry-${id}`,
+        type: 'container',
+        name: id,
+        meta: { id: `container:${id}`, names: [`/${id}`], state },
+    });
+
+    const memberNames = (folder: { containers: Array<{ name: string }> } | undefined): string[] =>
+        (folder?.containers ?? []).map(member => member.name);
+
+    it('should count containers of nested folders towards their parents', () => {
+        const folders = resolveDockerFolders({
+            views: [
+                {
+                    id: 'default',
+                    rootId: 'root',
+                    flatEntries: [
+                        { id: 'root', type: 'folder', name: 'root', childrenIds: ['media', 'entry-plex'] },
+                        { id: 'media', type: 'folder', name: 'Media', childrenIds: ['entry-radarr', 'tools'] },
+                        { id: 'tools', type: 'folder', name: 'Tools', childrenIds: ['entry-sabnzbd'] },
+                        container('plex'),
+                        container('radarr'),
+                        container('sabnzbd', 'EXITED'),
+                    ],
+                },
+            ],
+        });
+
+        expect(folders.map(folder => folder.id)).to.deep.equal(['media', 'tools']);
+        const media = folders.find(folder => folder.id === 'media');
+        expect(media?.name).to.equal('Media');
+        expect(media?.containers).to.deep.equal([
+            { id: 'container:radarr', name: 'radarr', state: 'RUNNING' },
+            { id: 'container:sabnzbd', name: 'sabnzbd', state: 'EXITED' },
+        ]);
+        expect(memberNames(folders.find(folder => folder.id === 'tools'))).to.deep.equal(['sabnzbd']);
+    });
+
+    it('should terminate on cyclic folders and list each container once', () => {
+        const folders = resolveDockerFolders({
+            views: [
+                {
+                    id: 'default',
+                    rootId: 'root',
+                    flatEntries: [
+                        { id: 'root', type: 'folder', name: 'root', childrenIds: ['a'] },
+                        { id: 'a', type: 'folder', name: 'A', childrenIds: ['b', 'entry-one'] },
+                        { id: 'b', type: 'folder', name: 'B', childrenIds: ['a', 'entry-two', 'entry-one'] },
+                        container('one'),
+                        container('two'),
+                    ],
+                },
+            ],
+        });
+
+        expect(memberNames(folders.find(folder => folder.id === 'a'))).to.have.members(['one', 'two']);
+        expect(memberNames(folders.find(folder => folder.id === 'a'))).to.have.length(2);
+        expect(memberNames(folders.find(folder => folder.id === 'b'))).to.have.members(['one', 'two']);
+        expect(memberNames(folders.find(folder => folder.id === 'b'))).to.have.length(2);
+    });
+
+    it('should fall back to the first view when there is no default view', () => {
+        const folders = resolveDockerFolders({
+            views: [
+                {
+                    id: 'custom',
+                    rootId: 'top',
+                    flatEntries: [
+                        { id: 'top', type: 'folder', name: 'top', childrenIds: ['apps'] },
+                        { id: 'apps', type: 'folder', name: 'Apps', childrenIds: ['entry-nginx'] },
+                        { id: 'entry-nginx', type: 'container', name: 'nginx', meta: { id: 'container:nginx' } },
+                    ],
+                },
+                { id: 'other', rootId: 'x', flatEntries: [{ id: 'ignored', type: 'folder', childrenIds: [] }] },
+            ],
+        });
+
+        expect(folders).to.deep.equal([
+            { id: 'apps', name: 'Apps', containers: [{ id: 'container:nginx', name: 'nginx', state: null }] },
+        ]);
+    });
+
+    it('should return an empty list without views', () => {
+        expect(resolveDockerFolders(null)).to.deep.equal([]);
+        expect(resolveDockerFolders({ views: [] })).to.deep.equal([]);
+    });
+});
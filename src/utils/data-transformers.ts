@@ -151,3 +151,137 @@ export function sanitizeResourceName(name: string): string {
         .replace(/^\//, '') // Remove leading slash (Docker containers)
         .replace(/[^a-zA-Z0-9_-]/g, '_'); // Keep only safe chars
 }
+
+/**
+ * Byte multipliers for the unit suffixes used by `docker stats`
+ * (decimal for kB/MB/GB, binary for KiB/MiB/GiB)
+ */
+const DOCKER_SIZE_UNITS: Record<string, number> = {
+    b: 1,
+    kb: 1e3,
+    mb: 1e6,
+    gb: 1e9,
+    tb: 1e12,
+    kib: 1024,
+    mib: 1024 ** 2,
+    gib: 1024 ** 3,
+    tib: 1024 ** 4,
+};
+
+/**
+ * Convert a Docker size string (e.g. "100MB", "1.5GiB", "0B") to bytes
+ *
+ * @param value - Size string as reported by `docker stats`
+ * @returns Size in bytes or null if the string cannot be parsed
+ */
+export function parseDockerSize(value: unknown): number | null {
+    const text = toStringOrNull(value)?.trim();
+    if (!text) {
+        return null;
+    }
+    const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(text);
+    if (!match) {
+        return null;
+    }
+    const multiplier = DOCKER_SIZE_UNITS[(match[2] || 'b').toLowerCase()];
+    if (multiplier === undefined) {
+        return null;
+    }
+    return Math.round(Number(match[1]) * multiplier);
+}
+
+/**
+ * Split a Docker "first / second" size pair (e.g. "100MB / 1GB") into bytes.
+ * Used for memory (used / limit), network (received / transmitted) and block I/O (read / written).
+ *
+ * @param value - Size pair as reported by `docker stats`
+ * @returns Tuple of both sides in bytes, each null if missing or unparsable
+ */
+export function parseDockerSizePair(value: unknown): [number | null, number | null] {
+    const text = toStringOrNull(value);
+    if (!text) {
+        return [null, null];
+    }
+    const [first, second] = text.split('/');
+    return [parseDockerSize(first), parseDockerSize(second)];
+}
+
+/**
+ * Derive whether a UPS is running on battery from its status text.
+ * Matches both the Unraid wording ("On Battery") and raw apcupsd flags ("ONBATT").
+ *
+ * @param status - UPS status as reported by the Unraid API
+ * @returns True if on battery, false otherwise, null if the status is unknown
+ */
+export function isUpsOnBattery(status: unknown): boolean | null {
+    const text = toStringOrNull(status);
+    if (!text) {
+        return null;
+    }
+    return /\bon[\s_-]?batt/i.test(text);
+}
+
+/**
+ * A folder of the Docker organizer view with its member containers
+ */
+export interface DockerFolder {
+    /** Organizer entry id of the folder */
+    id: string;
+    /** Folder name as shown in the Unraid Docker tab */
+    name: string;
+    /** Member containers, including those of nested folders */
+    containers: Array<{ id: string; name: string; state: string | null }>;
+}
+
+/**
+ * Resolve the folders of the Docker organizer (`docker.organizer`, ResolvedOrganizerV1).
+ * Uses the `default` view and walks `childrenIds` so nested folders count towards their parents.
+ *
+ * @param organizer - Organizer object with `views[].flatEntries`
+ * @returns All folders except the root folder of the view
+ */
+export function resolveDockerFolders(organizer: unknown): DockerFolder[] {
+    const views = (organizer as { views?: unknown } | null)?.views;
+    if (!Array.isArray(views) || views.length === 0) {
+        return [];
+    }
+    const view = (views.find(v => (v as Record<string, unknown>)?.id === 'default') ?? views[0]) as Record<
+        string,
+        unknown
+    >;
+    const entries = Array.isArray(view?.flatEntries) ? (view.flatEntries as Array<Record<string, unknown>>) : [];
+    const entryById = new Map(entries.map(entry => [String(entry.id), entry]));
+
+    const collectContainers = (entry: Record<string, unknown>, visited: Set<string>): DockerFolder['containers'] => {
+        const containers: DockerFolder['containers'] = [];
+        const childrenIds = Array.isArray(entry.childrenIds) ? entry.childrenIds : [];
+        for (const childId of childrenIds) {
+            const child = entryById.get(String(childId));
+            if (!child || visited.has(String(childId))) {
+                continue;
+            }
+            visited.add(String(childId));
+            if (child.type === 'folder') {
+                containers.push(...collectContainers(child, visited));
+                continue;
+            }
+            const meta = child.meta as Record<string, unknown> | null | undefined;
+            const id = toStringOrNull(meta?.id);
+            if (!id) {
+                continue;
+            }
+            const names = meta?.names;
+            const name = Array.isArray(names) && typeof names[0] === 'string' ? names[0].replace(/^\//, '') : null;
+            containers.push({ id, name: name ?? toStringOrNull(child.name) ?? id, state: toStringOrNull(meta?.state) });
+        }
+        return containers;
+    };
+
+    return entries
+        .filter(entry => entry.type === 'folder' && entry.id !== view.rootId)
+        .map(entry => ({
+            id: String(entry.id),
+            name: toStringOrNull(entry.name) ?? String(entry.id),
+            containers: collectContainers(entry, new Set([String(entry.id)])),
+        }));
+}